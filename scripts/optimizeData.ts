@@ -1,38 +1,188 @@
 #!/usr/bin/env node
 /**
  * EVE 星图数据优化脚本
- * 
+ *
  * 功能：
- * 1. 过滤出只需要的 New Eden 系统（ID: 30000000-30999999）
+ * 1. 过滤出需要的系统：默认只保留 New Eden 系统（ID: 30000000-30999999），可选保留虫洞和深渊系统
  * 2. 只保留与这些系统相关的星门连接
- * 3. 只保留包含 New Eden 系统的星域
- * 4. 移除不需要的字段，只保留代码中实际使用的字段
- * 5. 压缩数据格式
+ * 3. 只保留包含这些系统的星域和星座，以及这些系统的恒星
+ * 4. 移除不需要的字段，只保留代码中实际使用的字段（含虫洞空间视图使用的 wormholeClassID）
+ * 5. 压缩数据格式（--format=binary 输出紧凑二进制格式，见 src/lib/mapDataFormat.ts）
+ * 6. 输出完整性报告（孤立星门、不对称星门、缺少星域的系统），源数据未变化时跳过重新生成
+ *
+ * 用法：pnpm optimize-data [--in=<dir>] [--out=<dir>] [--include-wormholes] [--include-abyssal]
+ *       [--locales=de,fr|all] [--format=jsonl|binary] [--dry-run] [--force]
  */
 
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, statSync } from 'fs';
+import { createHash } from 'crypto';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import type { SolarSystem } from '../src/utils/loadEveData';
-import type { Stargate } from '../src/utils/loadEveData';
-import type { Region } from '../src/utils/loadEveData';
+import type { SolarSystem } from '../src/lib/types';
+import type { Stargate } from '../src/lib/types';
+import type { Region } from '../src/lib/types';
+import type { Constellation } from '../src/lib/types';
+import type { MapData } from '../src/lib/types';
+import type { Star } from '../src/lib/types';
+import { encodeMapData } from '../src/lib/mapDataFormat';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// New Eden 系统 ID 范围
+// 系统 ID 范围：New Eden（含 Pochven）、虫洞空间（Anoikis）、深渊
 const NEW_EDEN_MIN_ID = 30000000;
 const NEW_EDEN_MAX_ID = 31000000;
+const WORMHOLE_MIN_ID = 31000000;
+const WORMHOLE_MAX_ID = 32000000;
+const ABYSSAL_MIN_ID = 32000000;
+const ABYSSAL_MAX_ID = 33000000;
 
-// 输入和输出目录
-const INPUT_DIR = join(__dirname, '../eve sde');
-const OUTPUT_DIR = join(__dirname, '../public/data');
+// 默认输入和输出目录
+const DEFAULT_INPUT_DIR = join(__dirname, '../eve sde');
+const DEFAULT_OUTPUT_DIR = join(__dirname, '../public/data');
 
-// 确保输出目录存在
-if (!existsSync(OUTPUT_DIR)) {
-  mkdirSync(OUTPUT_DIR, { recursive: true });
+// SDE 中除 zh / en 外的本地化名称，默认丢弃以减小数据体积
+const SDE_EXTRA_LOCALES = ['de', 'fr', 'ja', 'ko', 'ru', 'es'];
+
+const USAGE = `Usage: pnpm optimize-data [options]
+
+Options:
+  --in=<dir>             SDE input directory (default: "eve sde")
+  --out=<dir>            output directory (default: public/data)
+  --include-wormholes    keep wormhole systems (31000000-31999999)
+  --include-abyssal      keep abyssal systems (32000000-32999999)
+  --locales=<list|all>   extra name locales to keep besides zh/en, e.g. de,ja
+  --format=jsonl|binary  output JSONL files or a single compact mapData.bin
+  --dry-run              process and report without writing any file
+  --force                regenerate even if the source data is unchanged
+  --help                 show this message`;
+
+const VALUE_OPTIONS = ['--in', '--out', '--locales', '--format'];
+const FLAG_OPTIONS = ['--include-wormholes', '--include-abyssal', '--dry-run', '--force', '--help'];
+
+const ARGS = process.argv.slice(2);
+
+/**
+ * 检查未知参数
+ */
+function warnUnknownArgs(args: string[]): void {
+  const unknown = args.filter(arg => !FLAG_OPTIONS.includes(arg) && !VALUE_OPTIONS.includes(arg.split('=')[0]));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Ignoring unknown arguments: ${unknown.join(' ')}`);
+  }
+}
+
+/**
+ * 读取 --name=value 参数的值
+ */
+function getValue(args: string[], name: string): string | undefined {
+  const arg = args.find(item => item.startsWith(`${name}=`));
+  return arg?.slice(name.length + 1).trim();
+}
+
+/**
+ * 解析目录参数，相对路径基于当前工作目录
+ */
+function parseDir(args: string[], name: string, fallback: string): string {
+  const value = getValue(args, name);
+  return value ? resolve(process.cwd(), value) : fallback;
 }
 
+/**
+ * 解析 --locales 参数：--locales=de,fr 保留指定语言，--locales=all 保留全部
+ */
+function parseLocales(args: string[]): string[] {
+  const value = getValue(args, '--locales');
+  if (!value) return [];
+  if (value === 'all') return SDE_EXTRA_LOCALES;
+  const locales = value.split(',').map(locale => locale.trim()).filter(Boolean);
+  const unknown = locales.filter(locale => !SDE_EXTRA_LOCALES.includes(locale) && locale !== 'zh' && locale !== 'en');
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Ignoring unknown locales: ${unknown.join(', ')}`);
+  }
+  return locales.filter(locale => SDE_EXTRA_LOCALES.includes(locale));
+}
+
+// 输出格式：jsonl 为每类数据一个 JSONL 文件，binary 为单个紧凑二进制文件
+type OutputFormat = 'jsonl' | 'binary';
+const BINARY_FILE_NAME = 'mapData.bin';
+const REPORT_FILE_NAME = 'optimizeReport.json';
+
+/**
+ * 解析 --format 参数，默认 jsonl
+ */
+function parseFormat(args: string[]): OutputFormat {
+  const value = getValue(args, '--format');
+  if (!value || value === 'jsonl') return 'jsonl';
+  if (value === 'binary') return 'binary';
+  console.warn(`⚠️ Unknown output format: ${value}, using jsonl`);
+  return 'jsonl';
+}
+
+const INPUT_DIR = parseDir(ARGS, '--in', DEFAULT_INPUT_DIR);
+const OUTPUT_DIR = parseDir(ARGS, '--out', DEFAULT_OUTPUT_DIR);
+const EXTRA_LOCALES = parseLocales(ARGS);
+const OUTPUT_FORMAT = parseFormat(ARGS);
+const INCLUDE_WORMHOLES = ARGS.includes('--include-wormholes');
+const INCLUDE_ABYSSAL = ARGS.includes('--include-abyssal');
+const DRY_RUN = ARGS.includes('--dry-run');
+const FORCE = ARGS.includes('--force');
+
+// 源文件
+const SOURCE_FILES = {
+  systems: 'mapSolarSystems.jsonl',
+  stargates: 'mapStargates.jsonl',
+  regions: 'mapRegions.jsonl',
+  constellations: 'mapConstellations.jsonl',
+  stars: 'mapStars.jsonl',
+};
+
+/**
+ * 影响输出内容的选项，与源文件哈希一起决定是否需要重新生成
+ */
+interface OptimizeOptions {
+  format: OutputFormat;
+  locales: string[];
+  includeWormholes: boolean;
+  includeAbyssal: boolean;
+}
+
+/**
+ * 完整性报告（基于源数据中被保留的系统）
+ */
+interface IntegrityReport {
+  /** 目标星系或目标星门不存在（或目标星系未被保留）的星门 */
+  orphanGates: { stargateID: number; solarSystemID: number; destinationSystemID: number; destinationStargateID: number; reason: 'missingSystem' | 'missingStargate' }[];
+  /** 目标星门不指回本星门的星门 */
+  asymmetricGates: { stargateID: number; solarSystemID: number; destinationStargateID: number; returnStargateID: number }[];
+  /** 所属星域不存在的系统 */
+  systemsWithoutRegion: { solarSystemID: number; regionID: number }[];
+}
+
+/**
+ * 写入输出目录的报告文件，同时记录源文件哈希用于增量运行
+ */
+interface OptimizeReport {
+  generatedAt: string;
+  options: OptimizeOptions;
+  /** 源文件名 -> SHA-256 */
+  sourceHashes: Record<string, string>;
+  /** 生成的文件 */
+  outputs: string[];
+  summary: Record<string, number>;
+  integrity: IntegrityReport;
+}
+
+const OPTIONS: OptimizeOptions = {
+  format: OUTPUT_FORMAT,
+  locales: EXTRA_LOCALES,
+  includeWormholes: INCLUDE_WORMHOLES,
+  includeAbyssal: INCLUDE_ABYSSAL,
+};
+
+// 本次运行生成的文件
+const outputs: string[] = [];
+
 /**
  * 判断是否为 New Eden 系统
  */
@@ -40,6 +190,17 @@ function isNewEdenSystem(systemID: number): boolean {
   return systemID >= NEW_EDEN_MIN_ID && systemID < NEW_EDEN_MAX_ID;
 }
 
+/**
+ * 判断是否需要保留系统：New Eden 始终保留，虫洞和深渊系统按参数保留
+ */
+function isIncludedSystem(systemID: number): boolean {
+  return (
+    isNewEdenSystem(systemID) ||
+    (INCLUDE_WORMHOLES && systemID >= WORMHOLE_MIN_ID && systemID < WORMHOLE_MAX_ID) ||
+    (INCLUDE_ABYSSAL && systemID >= ABYSSAL_MIN_ID && systemID < ABYSSAL_MAX_ID)
+  );
+}
+
 /**
  * 读取 JSONL 文件
  */
@@ -50,37 +211,83 @@ function readJSONL<T>(filePath: string): T[] {
 }
 
 /**
- * 写入 JSONL 文件
+ * 序列化为 JSONL
+ */
+function toJSONL<T>(data: T[]): string {
+  return data.map(item => JSON.stringify(item)).join('\n') + '\n';
+}
+
+/**
+ * 计算文件的 SHA-256
+ */
+function hashFile(filePath: string): string {
+  return createHash('sha256').update(readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * 写入输出文件（--dry-run 时只记录不写入），返回写入的字节数
+ */
+function writeOutputFile(fileName: string, content: string | Uint8Array): number {
+  if (!DRY_RUN) {
+    writeFileSync(join(OUTPUT_DIR, fileName), content);
+  }
+  outputs.push(fileName);
+  return typeof content === 'string' ? Buffer.byteLength(content) : content.byteLength;
+}
+
+/**
+ * 输出优化前后的文件大小
+ */
+function logSizes(originalSize: number, optimizedSize: number): void {
+  const reduction = ((1 - optimizedSize / originalSize) * 100).toFixed(2);
+  console.log(`  Original size: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
+  console.log(`  Optimized size: ${(optimizedSize / 1024 / 1024).toFixed(2)} MB`);
+  console.log(`  Reduction: ${reduction}%`);
+}
+
+/**
+ * 以 JSONL 格式写入并输出大小（binary 格式在全部数据处理完后统一写入）
+ */
+function writeOutput<T>(fileName: string, data: T[]): void {
+  if (OUTPUT_FORMAT !== 'jsonl') return;
+  const size = writeOutputFile(fileName, toJSONL(data));
+  logSizes(statSync(join(INPUT_DIR, fileName)).size, size);
+}
+
+/**
+ * 保留名称：zh / en 始终保留（zh 缺失时回退到 en），其他语言按 --locales 保留
  */
-function writeJSONL<T>(filePath: string, data: T[]): void {
-  const lines = data.map(item => JSON.stringify(item));
-  writeFileSync(filePath, lines.join('\n') + '\n', 'utf-8');
+function pickNames(name?: { [key: string]: string }): { [key: string]: string } {
+  const names: { [key: string]: string } = {
+    zh: name?.zh || name?.en || '',
+    en: name?.en || '',
+  };
+  EXTRA_LOCALES.forEach(locale => {
+    if (name?.[locale]) {
+      names[locale] = name[locale];
+    }
+  });
+  return names;
 }
 
 /**
  * 优化太阳系数据
  */
-function optimizeSolarSystems() {
-  console.log('正在读取太阳系数据...');
-  const systems = readJSONL<SolarSystem>(join(INPUT_DIR, 'mapSolarSystems.jsonl'));
-  
-  console.log(`原始数据: ${systems.length} 个系统`);
-  
-  // 过滤 New Eden 系统
-  const newEdenSystems = systems.filter(s => isNewEdenSystem(s._key));
-  console.log(`New Eden 系统: ${newEdenSystems.length} 个`);
-  
+function optimizeSolarSystems(sourceSystems: SolarSystem[]) {
+  console.log('Processing solar systems...');
+  console.log(`Source: ${sourceSystems.length} systems`);
+
+  // 过滤需要保留的系统
+  const includedSystems = sourceSystems.filter(s => isIncludedSystem(s._key));
+  console.log(`Included systems: ${includedSystems.length}`);
+
   // 创建系统 ID 集合，用于后续过滤
-  const systemIDSet = new Set(newEdenSystems.map(s => s._key));
-  
+  const systemIDSet = new Set(includedSystems.map(s => s._key));
+
   // 只保留需要的字段
-  const optimized = newEdenSystems.map(system => ({
+  const optimized = includedSystems.map(system => ({
     _key: system._key,
-    name: {
-      zh: system.name?.zh || system.name?.en || '',
-      en: system.name?.en || '',
-      // ja: system.name?.ja || ''
-    },
+    name: pickNames(system.name),
     position: {
       x: system.position.x,
       y: system.position.y,
@@ -89,40 +296,30 @@ function optimizeSolarSystems() {
     regionID: system.regionID,
     constellationID: system.constellationID,
     securityStatus: system.securityStatus,
-    ...(system.securityClass ? { securityClass: system.securityClass } : {})
+    ...(system.securityClass ? { securityClass: system.securityClass } : {}),
+    ...(system.wormholeClassID !== undefined ? { wormholeClassID: system.wormholeClassID } : {})
   }));
-  
-  // 写入优化后的数据
-  writeJSONL(join(OUTPUT_DIR, 'mapSolarSystems.jsonl'), optimized);
-  
-  const originalSize = readFileSync(join(INPUT_DIR, 'mapSolarSystems.jsonl')).length;
-  const optimizedSize = readFileSync(join(OUTPUT_DIR, 'mapSolarSystems.jsonl')).length;
-  const reduction = ((1 - optimizedSize / originalSize) * 100).toFixed(2);
-  
-  console.log(`优化完成:`);
-  console.log(`  原始大小: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  优化后大小: ${(optimizedSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  压缩率: ${reduction}%`);
-  console.log(`  保留系统: ${optimized.length} / ${systems.length}`);
-  
-  return { systemIDSet, regionIDs: new Set(optimized.map(s => s.regionID)) };
+
+  console.log('Done:');
+  writeOutput(SOURCE_FILES.systems, optimized);
+  console.log(`  Kept systems: ${optimized.length} / ${sourceSystems.length}`);
+
+  return { systems: optimized, systemIDSet, regionIDs: new Set(optimized.map(s => s.regionID)) };
 }
 
 /**
  * 优化星门数据
  */
-function optimizeStargates(systemIDSet: Set<number>) {
-  console.log('\n正在读取星门数据...');
-  const stargates = readJSONL<Stargate>(join(INPUT_DIR, 'mapStargates.jsonl'));
-  
-  console.log(`原始数据: ${stargates.length} 个星门`);
-  
-  // 只保留两个端点都在 New Eden 的星门连接
-  const optimized = stargates
+function optimizeStargates(sourceStargates: Stargate[], systemIDSet: Set<number>) {
+  console.log('\nProcessing stargates...');
+  console.log(`Source: ${sourceStargates.length} stargates`);
+
+  // 只保留两个端点都被保留的星门连接
+  const optimized = sourceStargates
     .filter(stargate => {
-      const fromInNewEden = systemIDSet.has(stargate.solarSystemID);
-      const toInNewEden = systemIDSet.has(stargate.destination?.solarSystemID);
-      return fromInNewEden && toInNewEden;
+      const fromIncluded = systemIDSet.has(stargate.solarSystemID);
+      const toIncluded = systemIDSet.has(stargate.destination?.solarSystemID);
+      return fromIncluded && toIncluded;
     })
     .map(stargate => ({
       _key: stargate._key,
@@ -138,86 +335,302 @@ function optimizeStargates(systemIDSet: Set<number>) {
       },
       typeID: stargate.typeID
     }));
-  
-  // 写入优化后的数据
-  writeJSONL(join(OUTPUT_DIR, 'mapStargates.jsonl'), optimized);
-  
-  const originalSize = readFileSync(join(INPUT_DIR, 'mapStargates.jsonl')).length;
-  const optimizedSize = readFileSync(join(OUTPUT_DIR, 'mapStargates.jsonl')).length;
-  const reduction = ((1 - optimizedSize / originalSize) * 100).toFixed(2);
-  
-  console.log(`优化完成:`);
-  console.log(`  原始大小: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  优化后大小: ${(optimizedSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  压缩率: ${reduction}%`);
-  console.log(`  保留星门: ${optimized.length} / ${stargates.length}`);
+
+  console.log('Done:');
+  writeOutput(SOURCE_FILES.stargates, optimized);
+  console.log(`  Kept stargates: ${optimized.length} / ${sourceStargates.length}`);
+
+  return optimized;
 }
 
 /**
  * 优化星域数据
  */
-function optimizeRegions(regionIDSet: Set<number>) {
-  console.log('\n正在读取星域数据...');
-  const regions = readJSONL<Region>(join(INPUT_DIR, 'mapRegions.jsonl'));
-  
-  console.log(`原始数据: ${regions.length} 个星域`);
-  
-  // 只保留包含 New Eden 系统的星域
-  const optimized = regions
+function optimizeRegions(sourceRegions: Region[], regionIDSet: Set<number>) {
+  console.log('\nProcessing regions...');
+  console.log(`Source: ${sourceRegions.length} regions`);
+
+  // 只保留包含被保留系统的星域
+  const optimized = sourceRegions
     .filter(region => regionIDSet.has(region._key))
     .map(region => ({
       _key: region._key,
-      name: {
-        zh: region.name?.zh || region.name?.en || '',
-        en: region.name?.en || ''
-      },
+      name: pickNames(region.name),
       position: {
         x: region.position.x,
         y: region.position.y,
         z: region.position.z
       },
-      constellationIDs: region.constellationIDs || []
+      constellationIDs: region.constellationIDs || [],
+      ...(region.wormholeClassID !== undefined ? { wormholeClassID: region.wormholeClassID } : {})
     }));
-  
-  // 写入优化后的数据
-  writeJSONL(join(OUTPUT_DIR, 'mapRegions.jsonl'), optimized);
-  
-  const originalSize = readFileSync(join(INPUT_DIR, 'mapRegions.jsonl')).length;
-  const optimizedSize = readFileSync(join(OUTPUT_DIR, 'mapRegions.jsonl')).length;
-  const reduction = ((1 - optimizedSize / originalSize) * 100).toFixed(2);
-  
-  console.log(`优化完成:`);
-  console.log(`  原始大小: ${(originalSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  优化后大小: ${(optimizedSize / 1024 / 1024).toFixed(2)} MB`);
-  console.log(`  压缩率: ${reduction}%`);
-  console.log(`  保留星域: ${optimized.length} / ${regions.length}`);
+
+  console.log('Done:');
+  writeOutput(SOURCE_FILES.regions, optimized);
+  console.log(`  Kept regions: ${optimized.length} / ${sourceRegions.length}`);
+
+  return optimized;
+}
+
+/**
+ * 优化星座数据
+ */
+function optimizeConstellations(sourceConstellations: Constellation[], regionIDSet: Set<number>, systemIDSet: Set<number>) {
+  console.log('\nProcessing constellations...');
+  console.log(`Source: ${sourceConstellations.length} constellations`);
+
+  // 只保留被保留星域中的星座，并移除未被保留的星系
+  const optimized = sourceConstellations
+    .filter(constellation => regionIDSet.has(constellation.regionID))
+    .map(constellation => ({
+      _key: constellation._key,
+      name: pickNames(constellation.name),
+      position: {
+        x: constellation.position.x,
+        y: constellation.position.y,
+        z: constellation.position.z
+      },
+      regionID: constellation.regionID,
+      solarSystemIDs: (constellation.solarSystemIDs || []).filter(id => systemIDSet.has(id)),
+      ...(constellation.wormholeClassID !== undefined ? { wormholeClassID: constellation.wormholeClassID } : {})
+    }));
+
+  console.log('Done:');
+  writeOutput(SOURCE_FILES.constellations, optimized);
+  console.log(`  Kept constellations: ${optimized.length} / ${sourceConstellations.length}`);
+
+  return optimized;
+}
+
+/**
+ * SDE 中的恒星数据（光谱型等位于 statistics 中）
+ */
+interface SdeStar {
+  _key: number;
+  solarSystemID: number;
+  radius: number;
+  statistics?: {
+    spectralClass?: string;
+    temperature?: number;
+    luminosity?: number;
+  };
+}
+
+/**
+ * 优化恒星数据：只保留被保留系统的恒星，展开 statistics 中用于着色的字段
+ * 紧凑二进制格式不包含恒星数据，两种输出格式都写入 JSONL
+ */
+function optimizeStars(systemIDSet: Set<number>) {
+  console.log('\nProcessing stars...');
+  const stars = readJSONL<SdeStar>(join(INPUT_DIR, SOURCE_FILES.stars));
+
+  console.log(`Source: ${stars.length} stars`);
+
+  const optimized: Star[] = stars
+    .filter(star => systemIDSet.has(star.solarSystemID))
+    .map(star => ({
+      _key: star._key,
+      solarSystemID: star.solarSystemID,
+      spectralClass: star.statistics?.spectralClass ?? '',
+      temperature: star.statistics?.temperature ?? 0,
+      luminosity: star.statistics?.luminosity ?? 0,
+      radius: star.radius
+    }));
+
+  const size = writeOutputFile(SOURCE_FILES.stars, toJSONL(optimized));
+
+  console.log('Done:');
+  logSizes(statSync(join(INPUT_DIR, SOURCE_FILES.stars)).size, size);
+  console.log(`  Kept stars: ${optimized.length} / ${stars.length}`);
+
+  return optimized;
+}
+
+/**
+ * 将四类数据写入单个紧凑二进制文件
+ */
+function writeBinary(data: MapData) {
+  console.log('\nEncoding compact binary data...');
+  const size = writeOutputFile(BINARY_FILE_NAME, new Uint8Array(encodeMapData(data, ['zh', 'en', ...EXTRA_LOCALES])));
+
+  const originalSize = [SOURCE_FILES.systems, SOURCE_FILES.stargates, SOURCE_FILES.regions, SOURCE_FILES.constellations]
+    .reduce((total, fileName) => total + statSync(join(INPUT_DIR, fileName)).size, 0);
+  console.log(`Done: ${join(OUTPUT_DIR, BINARY_FILE_NAME)}`);
+  logSizes(originalSize, size);
+}
+
+/**
+ * 检查源数据中被保留系统的完整性：
+ * 目标不存在的星门、不指回本星门的星门、所属星域不存在的系统
+ */
+function checkIntegrity(sourceSystems: SolarSystem[], sourceStargates: Stargate[], sourceRegions: Region[], systemIDSet: Set<number>): IntegrityReport {
+  const stargateMap = new Map(sourceStargates.map(stargate => [stargate._key, stargate]));
+  const regionIDSet = new Set(sourceRegions.map(region => region._key));
+  const report: IntegrityReport = { orphanGates: [], asymmetricGates: [], systemsWithoutRegion: [] };
+
+  sourceStargates.forEach(stargate => {
+    if (!systemIDSet.has(stargate.solarSystemID)) return;
+    const destinationSystemID = stargate.destination?.solarSystemID;
+    const destinationStargateID = stargate.destination?.stargateID;
+    const destination = stargateMap.get(destinationStargateID);
+    const gate = { stargateID: stargate._key, solarSystemID: stargate.solarSystemID, destinationSystemID, destinationStargateID };
+
+    if (!systemIDSet.has(destinationSystemID)) {
+      report.orphanGates.push({ ...gate, reason: 'missingSystem' });
+    } else if (!destination) {
+      report.orphanGates.push({ ...gate, reason: 'missingStargate' });
+    } else if (destination.destination?.stargateID !== stargate._key || destination.solarSystemID !== destinationSystemID) {
+      report.asymmetricGates.push({
+        stargateID: stargate._key,
+        solarSystemID: stargate.solarSystemID,
+        destinationStargateID,
+        returnStargateID: destination.destination?.stargateID
+      });
+    }
+  });
+
+  sourceSystems.forEach(system => {
+    if (systemIDSet.has(system._key) && !regionIDSet.has(system.regionID)) {
+      report.systemsWithoutRegion.push({ solarSystemID: system._key, regionID: system.regionID });
+    }
+  });
+
+  return report;
+}
+
+/**
+ * 读取上次运行的报告，不存在或无法解析时返回 null
+ */
+function readPreviousReport(): OptimizeReport | null {
+  const reportPath = join(OUTPUT_DIR, REPORT_FILE_NAME);
+  if (!existsSync(reportPath)) return null;
+  try {
+    return JSON.parse(readFileSync(reportPath, 'utf-8')) as OptimizeReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 源文件哈希、选项与上次运行相同且上次的输出文件都存在时，无需重新生成
+ */
+function isUpToDate(previous: OptimizeReport | null, sourceHashes: Record<string, string>): boolean {
+  if (!previous) return false;
+  return (
+    JSON.stringify(previous.options) === JSON.stringify(OPTIONS) &&
+    JSON.stringify(previous.sourceHashes) === JSON.stringify(sourceHashes) &&
+    previous.outputs.every(fileName => existsSync(join(OUTPUT_DIR, fileName)))
+  );
+}
+
+/**
+ * 输出完整性检查结果
+ */
+function logIntegrity(integrity: IntegrityReport): void {
+  console.log('\nIntegrity check:');
+  console.log(`  Orphan gates: ${integrity.orphanGates.length}`);
+  console.log(`  Asymmetric gates: ${integrity.asymmetricGates.length}`);
+  console.log(`  Systems without region: ${integrity.systemsWithoutRegion.length}`);
 }
 
 /**
  * 主函数
  */
 function main() {
-  console.log('开始优化 EVE 星图数据...\n');
-  
+  if (ARGS.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  warnUnknownArgs(ARGS);
+
+  console.log('Optimizing EVE map data...');
+  console.log(`Input: ${INPUT_DIR}`);
+  console.log(`Output: ${OUTPUT_DIR}${DRY_RUN ? ' (dry run, nothing is written)' : ''}`);
+  console.log(`Included space: ${['New Eden', ...(INCLUDE_WORMHOLES ? ['wormholes'] : []), ...(INCLUDE_ABYSSAL ? ['abyssal'] : [])].join(', ')}`);
+  console.log(`Locales: ${['zh', 'en', ...EXTRA_LOCALES].join(', ')}`);
+  console.log(`Format: ${OUTPUT_FORMAT}\n`);
+
   try {
+    const missing = Object.values(SOURCE_FILES).filter(fileName => !existsSync(join(INPUT_DIR, fileName)));
+    if (missing.length > 0) {
+      throw new Error(`Missing source files in ${INPUT_DIR}: ${missing.join(', ')}`);
+    }
+
+    const sourceHashes = Object.fromEntries(
+      Object.values(SOURCE_FILES).map(fileName => [fileName, hashFile(join(INPUT_DIR, fileName))])
+    );
+    if (!DRY_RUN && !FORCE && isUpToDate(readPreviousReport(), sourceHashes)) {
+      console.log('✅ Source data and options are unchanged, skipping. Use --force to regenerate.');
+      return;
+    }
+
+    if (!DRY_RUN && !existsSync(OUTPUT_DIR)) {
+      mkdirSync(OUTPUT_DIR, { recursive: true });
+    }
+
+    const sourceSystems = readJSONL<SolarSystem>(join(INPUT_DIR, SOURCE_FILES.systems));
+    const sourceStargates = readJSONL<Stargate>(join(INPUT_DIR, SOURCE_FILES.stargates));
+    const sourceRegions = readJSONL<Region>(join(INPUT_DIR, SOURCE_FILES.regions));
+    const sourceConstellations = readJSONL<Constellation>(join(INPUT_DIR, SOURCE_FILES.constellations));
+
     // 1. 优化太阳系数据
-    const { systemIDSet, regionIDs } = optimizeSolarSystems();
-    
+    const { systems, systemIDSet, regionIDs } = optimizeSolarSystems(sourceSystems);
+
     // 2. 优化星门数据
-    optimizeStargates(systemIDSet);
-    
+    const stargates = optimizeStargates(sourceStargates, systemIDSet);
+
     // 3. 优化星域数据
-    optimizeRegions(regionIDs);
-    
-    console.log('\n✅ 数据优化完成！');
-    console.log(`优化后的数据已保存到: ${OUTPUT_DIR}`);
-    console.log('\n提示: 请更新代码中的数据文件路径，指向优化后的文件。');
-    
+    const regions = optimizeRegions(sourceRegions, regionIDs);
+
+    // 4. 优化星座数据
+    const constellations = optimizeConstellations(sourceConstellations, regionIDs, systemIDSet);
+
+    // 5. 优化恒星数据
+    const stars = optimizeStars(systemIDSet);
+
+    // 6. 写入紧凑二进制格式
+    if (OUTPUT_FORMAT === 'binary') {
+      writeBinary({ systems, stargates, regions, constellations });
+    }
+
+    // 7. 完整性检查并写入报告
+    const integrity = checkIntegrity(sourceSystems, sourceStargates, sourceRegions, systemIDSet);
+    logIntegrity(integrity);
+
+    const report: OptimizeReport = {
+      generatedAt: new Date().toISOString(),
+      options: OPTIONS,
+      sourceHashes,
+      outputs: [...outputs],
+      summary: {
+        systems: systems.length,
+        stargates: stargates.length,
+        regions: regions.length,
+        constellations: constellations.length,
+        stars: stars.length,
+        orphanGates: integrity.orphanGates.length,
+        asymmetricGates: integrity.asymmetricGates.length,
+        systemsWithoutRegion: integrity.systemsWithoutRegion.length
+      },
+      integrity
+    };
+    const reportJSON = JSON.stringify(report, null, 2) + '\n';
+
+    if (DRY_RUN) {
+      console.log(`\nWould write: ${[...outputs, REPORT_FILE_NAME].join(', ')}`);
+      console.log(`\n${reportJSON}`);
+      return;
+    }
+    writeFileSync(join(OUTPUT_DIR, REPORT_FILE_NAME), reportJSON);
+
+    console.log('\n✅ Data optimization complete!');
+    console.log(`Optimized data saved to: ${OUTPUT_DIR}`);
+    console.log(`Integrity report: ${join(OUTPUT_DIR, REPORT_FILE_NAME)}`);
+
   } catch (error) {
-    console.error('❌ 优化过程中出现错误:', error);
+    console.error('❌ Optimization failed:', error);
     process.exit(1);
   }
 }
 
 main();
-
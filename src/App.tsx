@@ -1,6 +1,5 @@
 import { useState, useMemo, useEffect, useCallback } from 'react'
-import { EveMap3D, useMapControl, isNewEdenSystem, type SolarSystem, type Stargate, type Region, type Jumpgate, type JumpDriveConfig } from './lib'
-import { loadSolarSystems, loadStargates, loadRegions } from './utils/loadEveData'
+import { EveMap3D, useMapControl, isNewEdenSystem, loadMapData, type SolarSystem, type Stargate, type Region, type Constellation, type Star, type Jumpgate, type JumpDriveConfig } from './lib'
 import './App.css'
 
 type Language = 'zh' | 'en'
@@ -9,6 +8,8 @@ function App() {
   const [systems, setSystems] = useState<SolarSystem[]>([])
   const [stargates, setStargates] = useState<Stargate[]>([])
   const [regions, setRegions] = useState<Region[]>([])
+  const [constellations, setConstellations] = useState<Constellation[]>([])
+  const [stars, setStars] = useState<Star[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [jumpDriveEnabled, setJumpDriveEnabled] = useState(true)
@@ -71,8 +72,8 @@ function App() {
     filterNewEdenOnly: true,
     jumpDriveConfig: jumpDriveConfig,
     events: {
-      onSystemClick: (system) => {
-        console.log('点击了星系:', system);
+      onSystemClick: (system, star) => {
+        console.log('点击了星系:', system, star);
       },
       onRegionClick: (region) => {
         console.log('点击了星域:', region);
@@ -80,25 +81,29 @@ function App() {
     },
   })
 
-  // 加载数据（只执行一次）
+  // 加载数据（只执行一次），卸载时取消
   useEffect(() => {
+    const controller = new AbortController()
     const loadData = async () => {
       try {
-        const [systemsData, stargatesData, regionsData] = await Promise.all([
-          loadSolarSystems(),
-          loadStargates(),
-          loadRegions(),
-        ])
-        setSystems(systemsData)
-        setStargates(stargatesData)
-        setRegions(regionsData)
+        const data = await loadMapData({ baseUrl: '/data', stars: true, signal: controller.signal })
+        if (data.issues.length > 0) {
+          console.warn('地图数据问题:', data.issues)
+        }
+        setSystems(data.systems)
+        setStargates(data.stargates)
+        setRegions(data.regions)
+        setConstellations(data.constellations)
+        setStars(data.stars)
         setLoading(false)
       } catch (err) {
+        if (controller.signal.aborted) return
         setError(err instanceof Error ? err.message : 'Unknown error')
         setLoading(false)
       }
     }
     loadData()
+    return () => controller.abort()
   }, []) // 只在组件挂载时执行一次
 
   // 更新跳跃引擎配置
@@ -296,6 +301,8 @@ function App() {
         stargates={stargates}
         jumpgates={jumpgates}
         regions={regions}
+        constellations={constellations}
+        stars={stars}
         mapControl={mapControl}
       />
 
@@ -1,9 +1,22 @@
-import { useState, useMemo, useCallback, useSyncExternalStore } from 'react';
+import { useState, useMemo, useCallback, useRef, useSyncExternalStore } from 'react';
 import { Canvas } from '@react-three/fiber';
-import type { EveMap3DProps, Region, SolarSystem } from './types';
+import type { Constellation, ContextMenuItem, ContextMenuTarget, EveMap3DProps, Jumpgate, Region, SolarSystem, Stargate } from './types';
 import { Scene } from './components/Scene';
 import { Compass2DOverlay } from './components/Compass2D';
-import { ContextMenu, type ContextMenuItem } from './components/ContextMenu';
+import { ContextMenu } from './components/ContextMenu';
+import { SystemTooltip } from './components/SystemTooltip';
+import { TerritoryLegend } from './components/TerritoryLegend';
+import { HeatmapLegend } from './components/HeatmapLegend';
+import { resolveTerritoryColors } from './components/utils/resolveTerritoryColors';
+import { resolveStarColors } from './components/utils/resolveStarColors';
+import { layoutJSpace } from './components/utils/layoutJSpace';
+import { createHeatmapScale } from './components/utils/createHeatmapScale';
+import { createKeyActionMap, resolveKeyAction } from './components/utils/resolveKeyAction';
+import { formatLocaleString, getLocaleStrings, getLocalizedName } from './i18n';
+
+// 虫洞空间视图中不显示星门与跳桥
+const NO_STARGATES: Stargate[] = [];
+const NO_JUMPGATES: Jumpgate[] = [];
 
 // 主组件
 export default function EveMap3D({ 
@@ -11,10 +24,18 @@ export default function EveMap3D({
   stargates, 
   jumpgates = [], 
   regions, 
+  constellations,
+  stars,
   mapControl 
 }: EveMap3DProps) {
   const [compassRotation, setCompassRotation] = useState(0);
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; system: SolarSystem | null } | null>(null);
+  const [hoveredSystem, setHoveredSystem] = useState<SolarSystem | null>(null);
+  // 测量模式下已点击的起点星系
+  const [measureStartId, setMeasureStartId] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // 画布的 contextmenu 监听先于容器触发，用于记录右键位置下的星系
+  const contextMenuSystemRef = useRef<SolarSystem | null>(null);
 
   // 订阅 mapControl 的状态变化
   const subscribe = useCallback((callback: () => void) => {
@@ -36,6 +57,41 @@ export default function EveMap3D({
   const config = mapControl.getConfig();
   const selectedSystemId = mapControl.getSelectedSystemId();
   const highlightedRegionId = mapControl.getHighlightedRegionId();
+  const highlightedConstellationId = mapControl.getHighlightedConstellationId();
+  const route = mapControl.getRoute();
+  const jumpRoute = mapControl.getJumpRoute();
+  const intelReports = mapControl.getIntelReports();
+  const pilots = mapControl.getPilots();
+  const measurement = mapControl.getMeasurement();
+  const wormholeConnections = mapControl.getWormholeConnections();
+  const territoryColors = useMemo(
+    () => resolveTerritoryColors(config.colorMode, config.territory, config.language || 'zh'),
+    [config.colorMode, config.territory, config.language]
+  );
+  const starColors = useMemo(
+    () => resolveStarColors(config.colorMode, stars, config.star),
+    [config.colorMode, stars, config.star]
+  );
+  const starsBySystem = useMemo(
+    () => (stars ? new Map(stars.map((star) => [star.solarSystemID, star])) : undefined),
+    [stars]
+  );
+  const strings = useMemo(
+    () => getLocaleStrings(config.language || 'zh', config.localeStrings),
+    [config.language, config.localeStrings]
+  );
+  const heatmapScale = useMemo(() => createHeatmapScale(config.heatmap), [config.heatmap]);
+  const jspaceLayout = useMemo(
+    () => layoutJSpace(config.viewMode, systems, regions, constellations, wormholeConnections, config.jspace, strings.other),
+    [config.viewMode, systems, regions, constellations, wormholeConnections, config.jspace, strings.other]
+  );
+  // 虫洞空间视图默认按等级着色，选择了其他着色模式时按该模式着色
+  const colorByWormholeClass =
+    !!jspaceLayout && config.jspace?.colorByClass !== false && (!config.colorMode || config.colorMode === 'security');
+  const showTerritoryLegend = !!territoryColors && !!config.colorMode && config.colorMode !== 'security' && config.territory?.showLegend !== false;
+  const showHeatmapLegend = !!heatmapScale && config.heatmap?.showLegend !== false;
+  const showStarLegend = !!starColors && config.star?.showLegend !== false;
+  const showWormholeClassLegend = colorByWormholeClass && config.jspace?.showLegend !== false;
   const highlightedSystemIds = useMemo(
     () => new Set(mapControl.getHighlightedSystemIds()), 
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -44,12 +100,39 @@ export default function EveMap3D({
 
   const handleSystemClick = useCallback(
     (system: SolarSystem) => {
+      // 测量模式：第一次点击选择起点，第二次点击完成测量（虫洞空间视图中使用布局坐标，不测量）
+      if (config.measureMode && !jspaceLayout) {
+        if (measureStartId === null) {
+          setMeasureStartId(system._key);
+          mapControl.clearMeasurement();
+        } else if (measureStartId !== system._key) {
+          const result = mapControl.measure(measureStartId, system._key);
+          setMeasureStartId(null);
+          if (result) {
+            config.events?.onMeasure?.(result);
+          }
+        }
+        return;
+      }
+
       // 通过 mapControl 选择星系，会自动处理聚焦和高亮
       mapControl.selectSystem(system._key);
     },
+    [config.measureMode, config.events, measureStartId, mapControl, jspaceLayout]
+  );
+
+  const handleConstellationClick = useCallback(
+    (constellation: Constellation) => {
+      // 通过 mapControl 高亮星座，会自动处理聚焦
+      mapControl.highlightConstellation(constellation._key);
+    },
     [mapControl]
   );
 
+  const handleSystemHover = useCallback((system: SolarSystem | null) => {
+    setHoveredSystem(system);
+  }, []);
+
   const handleRegionClick = useCallback(
     (region: Region) => {
       // 通过 mapControl 高亮星域，会自动处理聚焦
@@ -58,44 +141,146 @@ export default function EveMap3D({
     [mapControl]
   );
 
+  const keyBindings = config.keyBindings;
+  const keyboardEnabled = keyBindings?.enabled !== false;
+  const keyActionMap = useMemo(() => createKeyActionMap(keyBindings?.bindings), [keyBindings?.bindings]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // 右键菜单打开时由菜单处理按键；输入框（如搜索框）内的按键不作为地图快捷键
+    if (contextMenu) return;
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+    const action = resolveKeyAction(e, keyActionMap);
+    if (!action) return;
+    // 操作无效时（如没有可循环的星系）保留默认行为，Tab 仍可移出地图
+    if (mapControl.__internal?.handleKeyAction(action, { panStep: keyBindings?.panStep, zoomStep: keyBindings?.zoomStep })) {
+      e.preventDefault();
+    }
+  }, [contextMenu, keyActionMap, keyBindings?.panStep, keyBindings?.zoomStep, mapControl]);
+
+  // 点击画布时让容器获得焦点，以便接收键盘事件
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (e.target instanceof HTMLCanvasElement) {
+      containerRef.current?.focus({ preventScroll: true });
+    }
+  }, []);
+
+  const handleSystemContextMenu = useCallback((system: SolarSystem | null) => {
+    contextMenuSystemRef.current = system;
+  }, []);
+
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
-    setContextMenu({ x: e.clientX, y: e.clientY });
+    const system = contextMenuSystemRef.current;
+    contextMenuSystemRef.current = null;
+    setContextMenu({ x: e.clientX, y: e.clientY, system });
   }, []);
 
   const handleCloseContextMenu = useCallback(() => {
     setContextMenu(null);
-  }, []);
+    // 菜单关闭后把焦点还给地图，以便继续使用键盘操作
+    if (keyboardEnabled) {
+      containerRef.current?.focus({ preventScroll: true });
+    }
+  }, [keyboardEnabled]);
 
+  // 菜单项在菜单打开时生成，之后保持不变：mapControl 在每次状态更新（如情报过期、角色移动）时都会变化，
+  // 若随之重建菜单项，已展开的子菜单会丢失键盘选中项与焦点
   const contextMenuItems: ContextMenuItem[] = useMemo(() => {
-    const items: ContextMenuItem[] = [
-      {
-        label: config.language === 'zh' ? '重置视角' : 'Reset Camera',
+    if (!contextMenu) return [];
+
+    const language = config.language || 'zh';
+    const targetSystem = contextMenu.system;
+    const targetRegionId = targetSystem ? targetSystem.regionID : highlightedRegionId;
+    const targetRegion = targetRegionId !== null ? regions?.find(r => r._key === targetRegionId) ?? null : null;
+    const items: ContextMenuItem[] = [];
+
+    // 右键命中星系时，添加针对该星系及其星域的选项
+    if (targetSystem) {
+      if (targetSystem._key !== selectedSystemId) {
+        items.push({
+          label: formatLocaleString(strings.selectSystem, { name: getLocalizedName(targetSystem.name, language) }),
+          onClick: () => {
+            mapControl.selectSystem(targetSystem._key);
+          },
+        });
+      }
+      items.push({
+        label: strings.focusSystem,
         onClick: () => {
-          mapControl.resetCamera();
-          mapControl.highlightRegion(null);
-          mapControl.selectSystem(null);
+          mapControl.focusSystem(targetSystem._key);
         },
+      });
+      if (!jspaceLayout) {
+        items.push({
+          label: formatLocaleString(strings.measureFrom, { name: getLocalizedName(targetSystem.name, language) }),
+          onClick: () => {
+            mapControl.setConfig({ measureMode: true });
+            mapControl.clearMeasurement();
+            setMeasureStartId(targetSystem._key);
+          },
+        });
+      }
+      if (targetRegion && targetRegion._key !== highlightedRegionId) {
+        items.push({
+          label: formatLocaleString(strings.highlightRegion, { name: getLocalizedName(targetRegion.name, language) }),
+          onClick: () => {
+            mapControl.highlightRegion(targetRegion._key);
+          },
+        });
+      }
+      items.push({ label: '', divider: true });
+    }
+
+    items.push({
+      label: strings.resetCamera,
+      onClick: () => {
+        mapControl.resetCamera();
+        mapControl.highlightRegion(null);
+        mapControl.selectSystem(null);
       },
-    ];
+    });
+    // 虫洞空间视图中的星系坐标为布局坐标，不提供测量
+    if (!jspaceLayout) {
+      items.push(
+        config.measureMode
+          ? {
+              label: strings.exitMeasureMode,
+              onClick: () => {
+                mapControl.setConfig({ measureMode: false });
+                mapControl.clearMeasurement();
+                setMeasureStartId(null);
+              },
+            }
+          : {
+              label: strings.startMeasure,
+              onClick: () => {
+                mapControl.setConfig({ measureMode: true });
+              },
+            },
+      );
+    }
 
     // 如果有选中的星系，添加相关选项
     if (selectedSystemId !== null) {
       const selectedSystem = systems.find(s => s._key === selectedSystemId);
       if (selectedSystem) {
-        items.push({ label: '', onClick: () => {}, divider: true });
+        items.push({ label: '', divider: true });
         items.push({
-          label: config.language === 'zh' ? '取消选择' : 'Deselect',
+          label: strings.deselect,
           onClick: () => {
             mapControl.selectSystem(null);
           },
         });
-        items.push({
-          label: config.language === 'zh' ? '聚焦到星系' : 'Focus System',
-          onClick: () => {
-            mapControl.focusSystem(selectedSystemId);
-          },
-        });
+        if (!targetSystem) {
+          items.push({
+            label: strings.focusSystem,
+            onClick: () => {
+              mapControl.focusSystem(selectedSystemId);
+            },
+          });
+        }
       }
     }
 
@@ -103,9 +288,9 @@ export default function EveMap3D({
     if (highlightedRegionId !== null) {
       const region = regions?.find(r => r._key === highlightedRegionId);
       if (region) {
-        items.push({ label: '', onClick: () => {}, divider: true });
+        items.push({ label: '', divider: true });
         items.push({
-          label: config.language === 'zh' ? '聚焦到星域' : 'Focus Region',
+          label: strings.focusRegion,
           onClick: () => {
             mapControl.focusRegion(highlightedRegionId);
           },
@@ -113,13 +298,22 @@ export default function EveMap3D({
       }
     }
 
-    return items;
-  }, [config.language, systems, regions, mapControl, selectedSystemId, highlightedRegionId]);
+    if (!config.contextMenuItems) {
+      return items;
+    }
+    const target: ContextMenuTarget = { system: targetSystem, region: targetRegion, language, defaultItems: items };
+    return config.contextMenuItems(target);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contextMenu]);
 
   return (
     <div
-      style={{ width: '100%', height: '100%', position: 'relative', ...config.containerStyle }}
+      ref={containerRef}
+      style={{ width: '100%', height: '100%', position: 'relative', outline: 'none', ...config.containerStyle }}
       className={config.containerClassName}
+      tabIndex={keyboardEnabled ? 0 : undefined}
+      onKeyDown={keyboardEnabled ? handleKeyDown : undefined}
+      onPointerDown={keyboardEnabled ? handlePointerDown : undefined}
       onContextMenu={handleContextMenu}
     >
       <Canvas
@@ -132,27 +326,117 @@ export default function EveMap3D({
         gl={{ antialias: true }}
       >
         <Scene
-          systems={systems}
-          stargates={stargates}
-          jumpgates={jumpgates}
+          // 切换视图时重建场景，以便按新的星系分布重新初始化相机
+          key={jspaceLayout ? 'jspace' : 'newEden'}
+          systems={jspaceLayout?.systems ?? systems}
+          stargates={jspaceLayout ? NO_STARGATES : stargates}
+          jumpgates={jspaceLayout ? NO_JUMPGATES : jumpgates}
           regions={regions}
+          constellations={constellations}
           onSystemClick={handleSystemClick}
+          onSystemHover={handleSystemHover}
+          onSystemContextMenu={handleSystemContextMenu}
+          hoverThrottleMs={config.tooltip?.throttleMs}
+          picking={config.picking}
           onRegionClick={handleRegionClick}
+          onConstellationClick={handleConstellationClick}
           highlightedRegionId={highlightedRegionId}
+          highlightedConstellationId={highlightedConstellationId}
           highlightedSystemIds={highlightedSystemIds}
           selectedSystemId={selectedSystemId}
           systemRenderConfigs={config.systemRenderConfigs}
           securityColors={config.securityColors}
+          territory={config.territory}
+          territoryColors={territoryColors}
+          star={config.star}
+          starColors={starColors}
+          starsBySystem={starsBySystem}
+          heatmap={config.heatmap}
+          heatmapScale={heatmapScale}
+          wormholeClassColors={colorByWormholeClass ? jspaceLayout!.systemColors : undefined}
+          wormholeClassGroups={jspaceLayout?.groups}
+          wormholeConnections={wormholeConnections}
+          jspace={config.jspace}
           language={config.language || 'zh'}
           style={config.style}
-          filterNewEdenOnly={config.filterNewEdenOnly}
+          filterNewEdenOnly={jspaceLayout ? false : config.filterNewEdenOnly}
           systemFilter={config.systemFilter}
           mapControl={mapControl}
-          jumpDriveConfig={config.jumpDriveConfig}
+          // 虫洞空间视图使用布局坐标，不显示依赖光年距离的跳跃范围、跳跃路线与测量线
+          jumpDriveConfig={jspaceLayout ? undefined : config.jumpDriveConfig}
+          route={route}
+          jumpRoute={jspaceLayout ? null : jumpRoute}
+          intelReports={intelReports}
+          intel={config.intel}
+          pilots={pilots}
+          pilotMarkers={config.pilotMarkers}
+          measurement={jspaceLayout ? null : measurement}
+          measureStartSystemId={config.measureMode && !jspaceLayout ? measureStartId : null}
+          strings={strings}
           onCompassRotationChange={setCompassRotation}
         />
       </Canvas>
       <Compass2DOverlay rotation={compassRotation} />
+      {(showTerritoryLegend || showHeatmapLegend || showStarLegend || showWormholeClassLegend) && (
+        <div
+          style={{
+            position: 'absolute',
+            left: '20px',
+            bottom: '20px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            zIndex: 900,
+          }}
+        >
+          {showHeatmapLegend && (
+            <HeatmapLegend
+              scale={heatmapScale!}
+              strings={strings}
+              title={config.heatmap?.legendTitle}
+              logarithmic={config.heatmap?.scale === 'log'}
+            />
+          )}
+          {showTerritoryLegend && config.colorMode && config.colorMode !== 'security' && (
+            <TerritoryLegend
+              colorMode={config.colorMode}
+              owners={territoryColors!.owners}
+              strings={strings}
+              title={config.territory?.legendTitle}
+              maxItems={config.territory?.legendMaxItems}
+              unclaimedColor={config.territory?.unclaimedColor}
+            />
+          )}
+          {showStarLegend && (
+            <TerritoryLegend
+              colorMode="star"
+              owners={starColors!.spectralTypes}
+              strings={strings}
+              title={config.star?.legendTitle}
+            />
+          )}
+          {showWormholeClassLegend && (
+            <TerritoryLegend
+              colorMode="wormholeClass"
+              owners={jspaceLayout!.groups}
+              strings={strings}
+              title={config.jspace?.legendTitle}
+              maxItems={jspaceLayout!.groups.length}
+            />
+          )}
+        </div>
+      )}
+      {config.tooltip?.enabled !== false && (
+        <SystemTooltip
+          system={hoveredSystem}
+          regions={regions}
+          constellations={constellations}
+          language={config.language || 'zh'}
+          strings={strings}
+          config={config.tooltip}
+          containerRef={containerRef}
+        />
+      )}
       {contextMenu && (
         <ContextMenu
           x={contextMenu.x}
@@ -0,0 +1,73 @@
+import { useCallback, useRef } from 'react';
+import { type ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import type { Constellation, Language, MapControl } from '../types';
+import { getLocalizedName } from '../i18n';
+
+export function ConstellationLabel({
+	constellation,
+	center,
+	language,
+	style,
+	isHighlighted = false,
+	onClick,
+	mapControl,
+}: {
+	constellation: Constellation;
+	center: THREE.Vector3;
+	language: Language;
+	style?: { labelFontSize?: number; labelColor?: string; constellationLabelColor?: string };
+	isHighlighted?: boolean;
+	onClick?: (constellation: Constellation) => void;
+	mapControl?: MapControl;
+}) {
+	const textRef = useRef<THREE.Mesh>(null);
+	const { camera } = useThree();
+	const baseFontSize = style?.labelFontSize || 2e15;
+
+	useFrame(() => {
+		if (textRef.current) {
+			// 使标签完全面向摄像机，平行于屏幕
+			textRef.current.quaternion.copy(camera.quaternion);
+
+			const distanceToCamera = camera.position.distanceTo(center);
+			const scale = distanceToCamera / (isHighlighted ? 1.5e17 : 2.5e17);
+			textRef.current.scale.setScalar(scale);
+		}
+	});
+
+	const constellationName = getLocalizedName(constellation.name, language);
+	const labelColor = isHighlighted ? (style?.labelColor || '#ffff00') : (style?.constellationLabelColor || '#8fb8ff');
+
+	const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
+		e.stopPropagation();
+		if (onClick) {
+			onClick(constellation);
+			mapControl?.getConfig().events?.onConstellationClick?.(constellation);
+		}
+	}, [onClick, constellation, mapControl]);
+
+	return (
+		<Text
+			ref={textRef}
+			position={[center.x, center.y, center.z]}
+			fontSize={baseFontSize}
+			color={labelColor}
+			fillOpacity={0.8}
+			anchorX="center"
+			anchorY="middle"
+			outlineWidth={0.1}
+			outlineColor="#000"
+			onClick={handleClick}
+			onPointerOver={() => {
+				document.body.style.cursor = 'pointer';
+			}}
+			onPointerOut={() => {
+				document.body.style.cursor = 'auto';
+			}}
+		>
+			{constellationName || `Constellation ${constellation._key}`}
+		</Text>
+	);
+}
@@ -1,11 +1,7 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { ContextMenuItem } from '../types';
 
-export interface ContextMenuItem {
-  label: string;
-  onClick: () => void;
-  disabled?: boolean;
-  divider?: boolean;
-}
+export type { ContextMenuItem };
 
 interface ContextMenuProps {
   x: number;
@@ -14,6 +10,247 @@ interface ContextMenuProps {
   onClose: () => void;
 }
 
+const menuStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(30, 30, 30, 0.95)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
+  padding: '6px 0',
+  minWidth: '160px',
+  zIndex: 10000,
+  backdropFilter: 'blur(10px)',
+  outline: 'none',
+};
+
+function isSelectable(item: ContextMenuItem): boolean {
+  return !item.divider && !item.disabled;
+}
+
+// 从 start 开始按 step 方向查找下一个可选项，没有可选项时返回 -1
+function findSelectable(items: ContextMenuItem[], start: number, step: number): number {
+  for (let offset = 1; offset <= items.length; offset++) {
+    const index = (((start + step * offset) % items.length) + items.length) % items.length;
+    if (isSelectable(items[index])) return index;
+  }
+  return -1;
+}
+
+/**
+ * 菜单列表（根菜单与子菜单共用）
+ * 方向键上下切换，右方向键 / Enter 展开子菜单，左方向键 / Esc 收起子菜单，根菜单按 Esc 关闭
+ */
+function MenuList({
+  items,
+  onClose,
+  onCollapse,
+  focused,
+  selectFirst = false,
+  style,
+  listRef,
+}: {
+  items: ContextMenuItem[];
+  onClose: () => void;
+  /** 收起当前子菜单（根菜单不传入） */
+  onCollapse?: () => void;
+  /** 是否获得键盘焦点 */
+  focused: boolean;
+  /** 获得焦点时是否选中第一项 */
+  selectFirst?: boolean;
+  style: React.CSSProperties;
+  listRef: React.RefObject<HTMLDivElement | null>;
+}) {
+  const ref = listRef;
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  // 通过键盘展开子菜单时，子菜单需要获得焦点并选中第一项
+  const [submenuFocused, setSubmenuFocused] = useState(false);
+
+  // 只在获得焦点时聚焦并选中第一项：菜单项更新时不能重置选中项，也不能从已展开的子菜单抢回焦点
+  useEffect(() => {
+    if (!focused) return;
+    ref.current?.focus({ preventScroll: true });
+    if (selectFirst) {
+      setActiveIndex(findSelectable(items, -1, 1));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focused]);
+
+  const moveActive = (step: number) => {
+    const index = findSelectable(items, activeIndex, step);
+    if (index >= 0) {
+      setActiveIndex(index);
+    }
+  };
+
+  const activate = (index: number, fromKeyboard: boolean) => {
+    const item = items[index];
+    if (!item || !isSelectable(item)) return;
+    if (item.children && item.children.length > 0) {
+      setOpenIndex(index);
+      setSubmenuFocused(fromKeyboard);
+      return;
+    }
+    item.onClick?.();
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // 事件来自已展开的子菜单时由子菜单处理
+    if (event.target !== ref.current) return;
+    switch (event.key) {
+      case 'ArrowDown':
+        moveActive(1);
+        break;
+      case 'ArrowUp':
+        moveActive(-1);
+        break;
+      case 'Home':
+        setActiveIndex(findSelectable(items, -1, 1));
+        break;
+      case 'End':
+        setActiveIndex(findSelectable(items, 0, -1));
+        break;
+      case 'ArrowRight':
+        if (activeIndex >= 0 && items[activeIndex]?.children?.length) {
+          activate(activeIndex, true);
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        activate(activeIndex, true);
+        break;
+      case 'ArrowLeft':
+        onCollapse?.();
+        break;
+      case 'Escape':
+        if (onCollapse) {
+          onCollapse();
+        } else {
+          onClose();
+        }
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <div ref={ref} role="menu" tabIndex={-1} onKeyDown={handleKeyDown} style={{ ...menuStyle, ...style }}>
+      {items.map((item, index) => {
+        if (item.divider) {
+          return (
+            <div
+              key={index}
+              role="separator"
+              style={{
+                height: '1px',
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                margin: '4px 0',
+              }}
+            />
+          );
+        }
+
+        const hasChildren = !!item.children && item.children.length > 0;
+        const isActive = index === activeIndex && !item.disabled;
+
+        return (
+          <div
+            key={index}
+            role="menuitem"
+            aria-disabled={item.disabled || undefined}
+            aria-haspopup={hasChildren || undefined}
+            aria-expanded={hasChildren ? openIndex === index : undefined}
+            onClick={() => activate(index, false)}
+            onMouseEnter={() => {
+              if (item.disabled) return;
+              setActiveIndex(index);
+              setOpenIndex(hasChildren ? index : null);
+              setSubmenuFocused(false);
+            }}
+            style={{
+              position: 'relative',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '8px 16px',
+              cursor: item.disabled ? 'not-allowed' : 'pointer',
+              color: item.disabled ? 'rgba(255, 255, 255, 0.4)' : 'rgba(255, 255, 255, 0.9)',
+              backgroundColor: isActive ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+              fontSize: '14px',
+              userSelect: 'none',
+              transition: 'background-color 0.15s ease',
+            }}
+          >
+            {item.icon !== undefined && (
+              <span style={{ width: '16px', display: 'inline-flex', justifyContent: 'center', flexShrink: 0 }}>{item.icon}</span>
+            )}
+            <span style={{ flex: 1, whiteSpace: 'nowrap' }}>{item.label}</span>
+            {hasChildren && <span style={{ color: 'rgba(255, 255, 255, 0.5)', marginLeft: '12px' }}>▸</span>}
+            {hasChildren && openIndex === index && (
+              <Submenu
+                items={item.children!}
+                focused={submenuFocused}
+                onClose={onClose}
+                onCollapse={() => {
+                  setOpenIndex(null);
+                  ref.current?.focus({ preventScroll: true });
+                }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * 子菜单：默认在父菜单项右侧展开，超出视口时改为左侧
+ */
+function Submenu({
+  items,
+  focused,
+  onClose,
+  onCollapse,
+}: {
+  items: ContextMenuItem[];
+  focused: boolean;
+  onClose: () => void;
+  onCollapse: () => void;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const rect = list.getBoundingClientRect();
+    if (rect.right > window.innerWidth) {
+      list.style.left = 'auto';
+      list.style.right = '100%';
+    }
+    if (rect.bottom > window.innerHeight) {
+      list.style.top = `${Math.min(window.innerHeight - rect.bottom - 6, 0)}px`;
+    }
+  }, []);
+
+  return (
+    <div onClick={(event) => event.stopPropagation()}>
+      <MenuList
+        items={items}
+        onClose={onClose}
+        onCollapse={onCollapse}
+        focused={focused}
+        selectFirst
+        listRef={listRef}
+        style={{ position: 'absolute', left: '100%', top: '-6px' }}
+      />
+    </div>
+  );
+}
+
 export function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -24,18 +261,10 @@ export function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
       }
     };
 
-    const handleEscape = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') {
-        onClose();
-      }
-    };
-
     document.addEventListener('mousedown', handleClickOutside);
-    document.addEventListener('keydown', handleEscape);
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
-      document.removeEventListener('keydown', handleEscape);
     };
   }, [onClose]);
 
@@ -65,67 +294,16 @@ export function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
   }, [x, y]);
 
   return (
-    <div
-      ref={menuRef}
+    <MenuList
+      items={items}
+      onClose={onClose}
+      focused
+      listRef={menuRef}
       style={{
         position: 'fixed',
         left: `${x}px`,
         top: `${y}px`,
-        backgroundColor: 'rgba(30, 30, 30, 0.95)',
-        border: '1px solid rgba(255, 255, 255, 0.2)',
-        borderRadius: '6px',
-        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
-        padding: '6px 0',
-        minWidth: '160px',
-        zIndex: 10000,
-        backdropFilter: 'blur(10px)',
       }}
-    >
-      {items.map((item, index) => {
-        if (item.divider) {
-          return (
-            <div
-              key={index}
-              style={{
-                height: '1px',
-                backgroundColor: 'rgba(255, 255, 255, 0.1)',
-                margin: '4px 0',
-              }}
-            />
-          );
-        }
-
-        return (
-          <div
-            key={index}
-            onClick={() => {
-              if (!item.disabled) {
-                item.onClick();
-                onClose();
-              }
-            }}
-            style={{
-              padding: '8px 16px',
-              cursor: item.disabled ? 'not-allowed' : 'pointer',
-              color: item.disabled ? 'rgba(255, 255, 255, 0.4)' : 'rgba(255, 255, 255, 0.9)',
-              fontSize: '14px',
-              userSelect: 'none',
-              transition: 'background-color 0.15s ease',
-            }}
-            onMouseEnter={(e) => {
-              if (!item.disabled) {
-                e.currentTarget.style.backgroundColor = 'rgba(255, 255, 255, 0.1)';
-              }
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = 'transparent';
-            }}
-          >
-            {item.label}
-          </div>
-        );
-      })}
-    </div>
+    />
   );
 }
-
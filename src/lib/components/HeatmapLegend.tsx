@@ -0,0 +1,59 @@
+import type { LocaleStrings } from '../types';
+import type { HeatmapScale } from './utils/createHeatmapScale';
+
+function formatValue(value: number): string {
+  if (Math.abs(value) >= 1000) {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * 热力图图例（DOM 覆盖层）：颜色渐变条及最小 / 最大值
+ */
+export function HeatmapLegend({
+  scale,
+  strings,
+  title,
+  logarithmic = false,
+}: {
+  scale: HeatmapScale;
+  strings: LocaleStrings;
+  title?: string;
+  logarithmic?: boolean;
+}) {
+  // log 映射时中间刻度取几何意义上的中点，便于读数
+  const midValue = logarithmic ? scale.min + Math.expm1(Math.log1p(scale.max - scale.min) / 2) : (scale.min + scale.max) / 2;
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(30, 30, 30, 0.85)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '6px',
+        padding: '8px 12px',
+        color: 'rgba(255, 255, 255, 0.9)',
+        fontSize: '12px',
+        width: '180px',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>
+        {title ?? strings.heatmap}
+        {logarithmic && <span style={{ fontWeight: 'normal', color: 'rgba(255, 255, 255, 0.5)' }}> (log)</span>}
+      </div>
+      <div
+        style={{
+          height: '10px',
+          borderRadius: '2px',
+          background: `linear-gradient(to right, ${scale.colorRamp.join(', ')})`,
+        }}
+      />
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px', color: 'rgba(255, 255, 255, 0.6)' }}>
+        <span>{formatValue(scale.min)}</span>
+        <span>{formatValue(midValue)}</span>
+        <span>{formatValue(scale.max)}</span>
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,13 @@ import type { SolarSystem } from '../types';
 
 export function HomeIcon({ 
 	system, 
+	label,
+	color,
 	onSystemClick 
 }: { 
 	system: SolarSystem;
+	label?: string;
+	color?: string;
 	onSystemClick: (system: SolarSystem) => void;
 }) {
 	const [isHovered, setIsHovered] = useState(false);
@@ -27,31 +31,48 @@ export function HomeIcon({
       // sprite
 			zIndexRange={[100, 0]}
 		>
-			<div
-				onClick={handleClick}
-				onMouseEnter={() => setIsHovered(true)}
-				onMouseLeave={() => setIsHovered(false)}
-				style={{
-					display: 'flex',
-					alignItems: 'center',
-					justifyContent: 'center',
-					background: isHovered ? 'rgba(255, 255, 255, 0.4)' : 'rgba(255, 255, 255, 0.2)',
-					borderRadius: '50%',
-					padding: '8px',
-					backdropFilter: 'blur(4px)',
-					border: `2px solid rgba(255, 255, 255, ${isHovered ? 1.0 : 0.8})`,
-					boxShadow: isHovered ? '0 0 30px rgba(255, 255, 255, 0.9)' : '0 0 20px rgba(255, 255, 255, 0.6)',
-					cursor: 'pointer',
-					transition: 'all 0.2s ease-in-out',
-					transform: isHovered ? 'scale(1.1)' : 'scale(1)',
-				}}
-			>
-				<Home
-					size={32}
-					color="#FFFFFF"
-					strokeWidth={2.5}
-					fill={isHovered ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.3)'}
-				/>
+			<div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '6px' }}>
+				<div
+					onClick={handleClick}
+					onMouseEnter={() => setIsHovered(true)}
+					onMouseLeave={() => setIsHovered(false)}
+					style={{
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'center',
+						background: isHovered ? 'rgba(255, 255, 255, 0.4)' : 'rgba(255, 255, 255, 0.2)',
+						borderRadius: '50%',
+						padding: '8px',
+						backdropFilter: 'blur(4px)',
+						border: `2px solid rgba(255, 255, 255, ${isHovered ? 1.0 : 0.8})`,
+						boxShadow: isHovered ? '0 0 30px rgba(255, 255, 255, 0.9)' : '0 0 20px rgba(255, 255, 255, 0.6)',
+						cursor: 'pointer',
+						transition: 'all 0.2s ease-in-out',
+						transform: isHovered ? 'scale(1.1)' : 'scale(1)',
+					}}
+				>
+					<Home
+						size={32}
+						color={color ?? '#FFFFFF'}
+						strokeWidth={2.5}
+						fill={isHovered ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.3)'}
+					/>
+				</div>
+				{label && (
+					<div
+						style={{
+							padding: '2px 8px',
+							borderRadius: '4px',
+							background: 'rgba(0, 0, 0, 0.6)',
+							color: color ?? '#FFFFFF',
+							fontSize: '18px',
+							whiteSpace: 'nowrap',
+							pointerEvents: 'none',
+						}}
+					>
+						{label}
+					</div>
+				)}
 			</div>
 		</Html>
 	);
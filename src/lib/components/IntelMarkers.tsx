@@ -0,0 +1,145 @@
+import { useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { IntelEntry, SolarSystem } from '../types';
+import { SYSTEM_POINT_SIZE } from './constants';
+
+// 脉冲周期（秒）
+const PULSE_PERIOD = 1.6;
+
+interface IntelMarkerData {
+	system: SolarSystem;
+	/** 该星系未过期情报的人数合计 */
+	count: number;
+	/** 最新一条情报的时间，标记按它淡出 */
+	latestTimestamp: number;
+	notes: string[];
+}
+
+function IntelMarker({
+	marker,
+	ttl,
+	color,
+	showBadge,
+}: {
+	marker: IntelMarkerData;
+	ttl: number;
+	color: string;
+	showBadge: boolean;
+}) {
+	const ringRef = useRef<THREE.Mesh>(null);
+	const pulseRef = useRef<THREE.Mesh>(null);
+	const badgeRef = useRef<HTMLDivElement>(null);
+	const lastOpacityRef = useRef(-1);
+	const { camera } = useThree();
+	const { system } = marker;
+	const radius = SYSTEM_POINT_SIZE * 2.5;
+
+	useFrame(({ clock }) => {
+		// 剩余有效期比例，标记整体随之淡出
+		const remaining = Math.min(Math.max(1 - (Date.now() - marker.latestTimestamp) / ttl, 0), 1);
+		const phase = (clock.elapsedTime / PULSE_PERIOD) % 1;
+
+		if (ringRef.current) {
+			ringRef.current.lookAt(camera.position);
+			(ringRef.current.material as THREE.MeshBasicMaterial).opacity = 0.9 * remaining;
+		}
+		if (pulseRef.current) {
+			pulseRef.current.lookAt(camera.position);
+			pulseRef.current.scale.setScalar(1 + phase * 2);
+			(pulseRef.current.material as THREE.MeshBasicMaterial).opacity = 0.7 * (1 - phase) * remaining;
+		}
+		// 只在变化明显时更新 DOM
+		if (badgeRef.current && Math.abs(lastOpacityRef.current - remaining) > 0.01) {
+			lastOpacityRef.current = remaining;
+			badgeRef.current.style.opacity = String(Math.max(remaining, 0.2));
+		}
+	});
+
+	return (
+		<group position={[-system.position.x, -system.position.y, system.position.z]}>
+			<mesh ref={ringRef} renderOrder={2}>
+				<ringGeometry args={[radius * 0.8, radius, 48]} />
+				<meshBasicMaterial color={color} side={THREE.DoubleSide} transparent depthWrite={false} depthTest={false} />
+			</mesh>
+			<mesh ref={pulseRef} renderOrder={2}>
+				<ringGeometry args={[radius * 0.92, radius, 48]} />
+				<meshBasicMaterial color={color} side={THREE.DoubleSide} transparent depthWrite={false} depthTest={false} />
+			</mesh>
+			{showBadge && (
+				<Html center zIndexRange={[100, 0]} style={{ pointerEvents: 'none' }}>
+					<div
+						ref={badgeRef}
+						title={marker.notes.join('\n') || undefined}
+						style={{
+							transform: 'translate(12px, -12px)',
+							minWidth: '18px',
+							padding: '1px 5px',
+							borderRadius: '9px',
+							backgroundColor: color,
+							color: '#ffffff',
+							fontSize: '12px',
+							fontWeight: 600,
+							lineHeight: '16px',
+							textAlign: 'center',
+							whiteSpace: 'nowrap',
+							boxShadow: '0 0 6px rgba(0, 0, 0, 0.6)',
+						}}
+					>
+						{marker.count}
+					</div>
+				</Html>
+			)}
+		</group>
+	);
+}
+
+/**
+ * 情报标记：在有情报的星系上绘制脉冲圆环和人数角标，随有效期淡出
+ * 同一星系的多条情报合并为一个标记
+ */
+export function IntelMarkers({
+	reports,
+	systems,
+	ttl,
+	color,
+	showBadge = true,
+}: {
+	reports: IntelEntry[];
+	systems: SolarSystem[];
+	ttl: number;
+	color: string;
+	showBadge?: boolean;
+}) {
+	const markers = useMemo(() => {
+		const systemMap = new Map(systems.map((system) => [system._key, system]));
+		const bySystem = new Map<number, IntelMarkerData>();
+		reports.forEach((report) => {
+			const system = systemMap.get(report.systemId);
+			if (!system) return;
+			const marker = bySystem.get(report.systemId);
+			if (marker) {
+				marker.count += report.count;
+				marker.latestTimestamp = Math.max(marker.latestTimestamp, report.timestamp);
+				if (report.note) marker.notes.push(report.note);
+			} else {
+				bySystem.set(report.systemId, {
+					system,
+					count: report.count,
+					latestTimestamp: report.timestamp,
+					notes: report.note ? [report.note] : [],
+				});
+			}
+		});
+		return Array.from(bySystem.values());
+	}, [reports, systems]);
+
+	return (
+		<>
+			{markers.map((marker) => (
+				<IntelMarker key={marker.system._key} marker={marker} ttl={ttl} color={color} showBadge={showBadge} />
+			))}
+		</>
+	);
+}
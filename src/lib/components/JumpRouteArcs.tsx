@@ -0,0 +1,104 @@
+import { useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { JumpRoutePlan, SolarSystem } from '../types';
+import { createArcSegments } from './utils/createArcSegments';
+
+/**
+ * 跳跃路线图层：每一跳渲染为一段弧线，并在弧顶标注该跳的光年距离
+ */
+export function JumpRouteArcs({
+	jumpRoute,
+	systemMap,
+	style,
+}: {
+	jumpRoute: JumpRoutePlan;
+	systemMap: Map<number, SolarSystem>;
+	style?: { jumpRouteLineColor?: string };
+}) {
+	const curveSegments = 48;
+	const color = style?.jumpRouteLineColor || '#ff8c00';
+
+	const material = useMemo(
+		() =>
+			new THREE.LineBasicMaterial({
+				color,
+				transparent: false,
+				depthTest: false,
+			}),
+		[color],
+	);
+
+	const arcs = useMemo(() => {
+		const results: Array<{
+			key: string;
+			geometry: THREE.BufferGeometry;
+			apex: THREE.Vector3;
+			distanceLightYears: number;
+		}> = [];
+
+		jumpRoute.hops.forEach((hop) => {
+			const from = systemMap.get(hop.fromSystemId);
+			const to = systemMap.get(hop.toSystemId);
+			if (!from || !to) return;
+
+			const fromPosition = new THREE.Vector3(-from.position.x, -from.position.y, from.position.z);
+			const toPosition = new THREE.Vector3(-to.position.x, -to.position.y, to.position.z);
+			const { segmentPositions, apex } = createArcSegments(fromPosition, toPosition, 0.15, curveSegments);
+
+			const geometry = new THREE.BufferGeometry();
+			geometry.setAttribute('position', new THREE.BufferAttribute(segmentPositions, 3));
+
+			results.push({
+				key: `${hop.fromSystemId}-${hop.toSystemId}`,
+				geometry,
+				apex,
+				distanceLightYears: hop.distanceLightYears,
+			});
+		});
+
+		return results;
+	}, [jumpRoute, systemMap]);
+
+	useEffect(() => {
+		return () => {
+			arcs.forEach((arc) => {
+				arc.geometry.dispose();
+			});
+		};
+	}, [arcs]);
+
+	useEffect(() => {
+		return () => {
+			material.dispose();
+		};
+	}, [material]);
+
+	return (
+		<>
+			{arcs.map((arc) => (
+				<group key={arc.key}>
+					<lineSegments geometry={arc.geometry} material={material} renderOrder={1} raycast={() => null} />
+					<Html position={[arc.apex.x, arc.apex.y, arc.apex.z]} center zIndexRange={[90, 0]}>
+						<div
+							style={{
+								padding: '1px 5px',
+								borderRadius: '4px',
+								background: 'rgba(0, 0, 0, 0.75)',
+								border: `1px solid ${color}`,
+								color,
+								fontSize: '11px',
+								fontFamily: 'monospace',
+								whiteSpace: 'nowrap',
+								pointerEvents: 'none',
+								userSelect: 'none',
+							}}
+						>
+							{arc.distanceLightYears.toFixed(2)} ly
+						</div>
+					</Html>
+				</group>
+			))}
+		</>
+	);
+}
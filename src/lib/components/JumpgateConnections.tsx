@@ -1,6 +1,7 @@
 import { useEffect, useMemo } from 'react';
 import * as THREE from 'three';
 import type { SolarSystem } from '../types';
+import { createArcSegments } from './utils/createArcSegments';
 
 export function JumpgateConnections({
 	connections,
@@ -63,47 +64,7 @@ export function JumpgateConnections({
 			const fromPosition = new THREE.Vector3(-conn.from.position.x, -conn.from.position.y, conn.from.position.z);
 			const toPosition = new THREE.Vector3(-conn.to.position.x, -conn.to.position.y, conn.to.position.z);
 
-			const forwardVector = toPosition.clone().sub(fromPosition);
-			const distance = forwardVector.length();
-
-			const forwardDirection = distance > 0 ? forwardVector.clone().normalize() : new THREE.Vector3(1, 0, 0);
-			const globalUp = new THREE.Vector3(0, 1, 0);
-
-			let planeNormal = forwardDirection.clone().cross(globalUp);
-			if (planeNormal.lengthSq() === 0) {
-				planeNormal = forwardDirection.clone().cross(new THREE.Vector3(1, 0, 0));
-			}
-			planeNormal.normalize();
-
-			const curveUp = planeNormal.clone().cross(forwardDirection).normalize();
-			const curveHeight = distance > 0 ? Math.max(distance * curveHeightScale, 1e15) : 1e15;
-			const positions = new Float32Array((curveSegments + 1) * 3);
-
-			for (let segment = 0; segment <= curveSegments; segment += 1) {
-				const t = segment / curveSegments;
-				const basePoint = fromPosition.clone().addScaledVector(forwardDirection, distance * t);
-				const offset = Math.sin(Math.PI * t) * curveHeight;
-				basePoint.addScaledVector(curveUp, offset);
-
-				const index = segment * 3;
-				positions[index] = basePoint.x;
-				positions[index + 1] = basePoint.y;
-				positions[index + 2] = basePoint.z;
-			}
-
-			const segmentPositions = new Float32Array(curveSegments * 2 * 3);
-			for (let segment = 0; segment < curveSegments; segment += 1) {
-				const startIndex = segment * 3;
-				const endIndex = (segment + 1) * 3;
-				const destIndex = segment * 6;
-
-				segmentPositions[destIndex] = positions[startIndex];
-				segmentPositions[destIndex + 1] = positions[startIndex + 1];
-				segmentPositions[destIndex + 2] = positions[startIndex + 2];
-				segmentPositions[destIndex + 3] = positions[endIndex];
-				segmentPositions[destIndex + 4] = positions[endIndex + 1];
-				segmentPositions[destIndex + 5] = positions[endIndex + 2];
-			}
+			const { segmentPositions } = createArcSegments(fromPosition, toPosition, curveHeightScale, curveSegments);
 
 			const isHighlighted =
 				(highlightedRegionId !== null && conn.from.regionID === highlightedRegionId && conn.to.regionID === highlightedRegionId) ||
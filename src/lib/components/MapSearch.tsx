@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { MapSearchProps, MapSearchResult } from '../types';
+import { getLocaleStrings, getLocalizedName } from '../i18n';
+
+/**
+ * 星系 / 星域 / 星座搜索框（DOM 覆盖层）
+ * 方向键切换结果，Enter 选中，Esc 关闭；选中星系调用 selectSystem，选中星域调用 highlightRegion，选中星座调用 highlightConstellation
+ */
+export function MapSearch({ mapControl, placeholder, limit = 10, types, style, className, onSelect }: MapSearchProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const config = mapControl.getConfig();
+  const language = config.language || 'zh';
+  const strings = getLocaleStrings(language, config.localeStrings);
+  const typesKey = types?.join(',');
+
+  const results = useMemo(
+    () => mapControl.searchMap(query, { limit, types: typesKey ? (typesKey.split(',') as MapSearchResult['type'][]) : undefined }),
+    [mapControl, query, limit, typesKey]
+  );
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const getDisplayName = useCallback(
+    (result: MapSearchResult) =>
+      getLocalizedName(result.name, language) || String(result.id),
+    [language]
+  );
+
+  const handleSelect = useCallback(
+    (result: MapSearchResult) => {
+      if (result.type === 'system') {
+        mapControl.selectSystem(result.id);
+      } else if (result.type === 'region') {
+        mapControl.highlightRegion(result.id);
+      } else {
+        mapControl.highlightConstellation(result.id);
+      }
+      setQuery(getDisplayName(result));
+      setOpen(false);
+      onSelect?.(result);
+    },
+    [mapControl, getDisplayName, onSelect]
+  );
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setOpen(true);
+      setActiveIndex((index) => (index + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      const result = results[activeIndex] ?? results[0];
+      if (result) {
+        event.preventDefault();
+        handleSelect(result);
+      }
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '20px',
+        width: '260px',
+        zIndex: 1000,
+        ...style,
+      }}
+    >
+      <input
+        type="text"
+        value={query}
+        placeholder={placeholder ?? strings.searchPlaceholder}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: '8px 12px',
+          backgroundColor: 'rgba(30, 30, 30, 0.95)',
+          border: '1px solid rgba(255, 255, 255, 0.2)',
+          borderRadius: '6px',
+          color: 'rgba(255, 255, 255, 0.9)',
+          fontSize: '14px',
+          outline: 'none',
+        }}
+      />
+      {open && results.length > 0 && (
+        <div
+          role="listbox"
+          style={{
+            marginTop: '4px',
+            backgroundColor: 'rgba(30, 30, 30, 0.95)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '6px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
+            padding: '4px 0',
+            maxHeight: '320px',
+            overflowY: 'auto',
+            backdropFilter: 'blur(10px)',
+          }}
+        >
+          {results.map((result, index) => (
+            <div
+              key={`${result.type}-${result.id}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '12px',
+                padding: '6px 12px',
+                cursor: 'pointer',
+                color: 'rgba(255, 255, 255, 0.9)',
+                fontSize: '14px',
+                userSelect: 'none',
+                backgroundColor: index === activeIndex ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+              }}
+            >
+              <span>{getDisplayName(result)}</span>
+              <span style={{ color: 'rgba(255, 255, 255, 0.4)', fontSize: '12px' }}>
+                {strings[result.type]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
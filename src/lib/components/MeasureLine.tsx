@@ -0,0 +1,104 @@
+import { useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { LocaleStrings, MeasureResult, SolarSystem } from '../types';
+import { formatLocaleString } from '../i18n';
+import { SelectionRing } from './SelectionRing';
+
+/**
+ * 测量图层：起点与终点之间绘制虚线，并在中点标注光年距离与星门跳数
+ * 测量模式下已选择起点、尚未选择终点时只标记起点
+ */
+export function MeasureLine({
+	measurement,
+	startSystem,
+	systemMap,
+	color,
+	strings,
+}: {
+	measurement: MeasureResult | null;
+	startSystem: SolarSystem | null;
+	systemMap: Map<number, SolarSystem>;
+	color: string;
+	strings: LocaleStrings;
+}) {
+	const material = useMemo(
+		() =>
+			new THREE.LineDashedMaterial({
+				color,
+				transparent: true,
+				opacity: 0.95,
+				depthTest: false,
+			}),
+		[color],
+	);
+
+	const segment = useMemo(() => {
+		if (!measurement) return null;
+		const from = systemMap.get(measurement.fromSystemId);
+		const to = systemMap.get(measurement.toSystemId);
+		if (!from || !to) return null;
+
+		const fromPosition = new THREE.Vector3(-from.position.x, -from.position.y, from.position.z);
+		const toPosition = new THREE.Vector3(-to.position.x, -to.position.y, to.position.z);
+		const geometry = new THREE.BufferGeometry().setFromPoints([fromPosition, toPosition]);
+		const line = new THREE.Line(geometry, material);
+		line.computeLineDistances();
+		line.renderOrder = 1;
+		line.raycast = () => null;
+
+		// 虚线长度随测量距离缩放
+		const length = fromPosition.distanceTo(toPosition);
+		material.dashSize = length / 40;
+		material.gapSize = length / 80;
+
+		return { line, geometry, from, to, midpoint: fromPosition.clone().add(toPosition).multiplyScalar(0.5) };
+	}, [measurement, systemMap, material]);
+
+	useEffect(() => {
+		return () => {
+			segment?.geometry.dispose();
+		};
+	}, [segment]);
+
+	useEffect(() => {
+		return () => {
+			material.dispose();
+		};
+	}, [material]);
+
+	const label = measurement
+		? `${measurement.distanceLightYears.toFixed(2)} ly · ${
+				measurement.jumps === null ? strings.noGateRoute : formatLocaleString(strings.measureJumps, { count: measurement.jumps })
+			}`
+		: '';
+
+	return (
+		<>
+			{startSystem && <SelectionRing system={startSystem} />}
+			{segment && (
+				<group>
+					<primitive object={segment.line} />
+					<Html position={[segment.midpoint.x, segment.midpoint.y, segment.midpoint.z]} center zIndexRange={[90, 0]}>
+						<div
+							style={{
+								padding: '2px 6px',
+								borderRadius: '4px',
+								background: 'rgba(0, 0, 0, 0.75)',
+								border: `1px solid ${color}`,
+								color,
+								fontSize: '12px',
+								fontFamily: 'monospace',
+								whiteSpace: 'nowrap',
+								pointerEvents: 'none',
+								userSelect: 'none',
+							}}
+						>
+							{label}
+						</div>
+					</Html>
+				</group>
+			)}
+		</>
+	);
+}
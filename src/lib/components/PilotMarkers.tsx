@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { MapControl, Pilot, SolarSystem } from '../types';
+import { findRoute, type StargateConnection } from '../routePlanner';
+import { DEFAULT_PILOT_COLOR } from './constants';
+
+const AVATAR_SIZE = 28;
+
+/**
+ * 角色在星系间移动的动画
+ */
+interface PilotTransit {
+	pilot: Pilot;
+	/** 沿星门连线经过的点（渲染坐标） */
+	path: THREE.Vector3[];
+	/** 到 path 中每个点的累计长度 */
+	distances: number[];
+	startTime: number;
+	duration: number;
+}
+
+function toRenderPosition(system: SolarSystem): THREE.Vector3 {
+	return new THREE.Vector3(-system.position.x, -system.position.y, system.position.z);
+}
+
+function getPilotTitle(pilot: Pilot): string {
+	return pilot.shipType ? `${pilot.name} (${pilot.shipType})` : pilot.name;
+}
+
+function PilotAvatar({ pilot, onClick, overlap = false }: { pilot: Pilot; onClick: (pilot: Pilot) => void; overlap?: boolean }) {
+	const color = pilot.color ?? DEFAULT_PILOT_COLOR;
+	return (
+		<div
+			title={getPilotTitle(pilot)}
+			onClick={(e) => {
+				e.stopPropagation();
+				onClick(pilot);
+			}}
+			style={{
+				width: `${AVATAR_SIZE}px`,
+				height: `${AVATAR_SIZE}px`,
+				marginLeft: overlap ? `-${AVATAR_SIZE / 3}px` : 0,
+				flexShrink: 0,
+				borderRadius: '50%',
+				border: `2px solid ${color}`,
+				boxSizing: 'border-box',
+				backgroundColor: 'rgba(30, 30, 30, 0.95)',
+				backgroundImage: pilot.avatarUrl ? `url("${pilot.avatarUrl}")` : undefined,
+				backgroundSize: 'cover',
+				boxShadow: `0 0 8px ${color}`,
+				color,
+				display: 'flex',
+				alignItems: 'center',
+				justifyContent: 'center',
+				fontSize: '12px',
+				fontWeight: 600,
+				cursor: 'pointer',
+				userSelect: 'none',
+			}}
+		>
+			{!pilot.avatarUrl && pilot.name.trim().charAt(0).toUpperCase()}
+		</div>
+	);
+}
+
+/**
+ * 同一星系的角色叠放显示，超出 maxStacked 的部分折叠为 "+N"
+ */
+function PilotStack({
+	system,
+	pilots,
+	maxStacked,
+	onPilotClick,
+}: {
+	system: SolarSystem;
+	pilots: Pilot[];
+	maxStacked: number;
+	onPilotClick: (pilot: Pilot) => void;
+}) {
+	const visiblePilots = pilots.slice(0, maxStacked);
+	const hiddenPilots = pilots.slice(maxStacked);
+
+	return (
+		<Html position={[-system.position.x, -system.position.y, system.position.z]} center zIndexRange={[100, 0]}>
+			<div
+				style={{
+					display: 'flex',
+					flexDirection: 'column',
+					alignItems: 'center',
+					gap: '2px',
+					transform: `translateY(-${AVATAR_SIZE}px)`,
+				}}
+			>
+				<div style={{ display: 'flex', alignItems: 'center' }}>
+					{visiblePilots.map((pilot, index) => (
+						<PilotAvatar key={pilot.id} pilot={pilot} onClick={onPilotClick} overlap={index > 0} />
+					))}
+					{hiddenPilots.length > 0 && (
+						<div
+							title={hiddenPilots.map(getPilotTitle).join('\n')}
+							style={{
+								marginLeft: '4px',
+								padding: '1px 6px',
+								borderRadius: '9px',
+								backgroundColor: 'rgba(30, 30, 30, 0.95)',
+								border: '1px solid rgba(255, 255, 255, 0.2)',
+								color: 'rgba(255, 255, 255, 0.9)',
+								fontSize: '12px',
+								whiteSpace: 'nowrap',
+							}}
+						>
+							+{hiddenPilots.length}
+						</div>
+					)}
+				</div>
+				{pilots.length === 1 && (
+					<div
+						style={{
+							padding: '1px 6px',
+							borderRadius: '4px',
+							background: 'rgba(0, 0, 0, 0.6)',
+							color: pilots[0].color ?? DEFAULT_PILOT_COLOR,
+							fontSize: '12px',
+							whiteSpace: 'nowrap',
+							pointerEvents: 'none',
+						}}
+					>
+						{pilots[0].name}
+					</div>
+				)}
+			</div>
+		</Html>
+	);
+}
+
+/**
+ * 移动中的角色：沿途经星系的星门连线匀速移动，到达后回到目标星系的叠放标记中
+ */
+function MovingPilot({
+	transit,
+	onArrive,
+	onPilotClick,
+}: {
+	transit: PilotTransit;
+	onArrive: (pilotId: Pilot['id']) => void;
+	onPilotClick: (pilot: Pilot) => void;
+}) {
+	const groupRef = useRef<THREE.Group>(null);
+	const arrivedRef = useRef(false);
+
+	useFrame(() => {
+		if (!groupRef.current || arrivedRef.current) return;
+		const { path, distances } = transit;
+		const progress = Math.min((performance.now() - transit.startTime) / transit.duration, 1);
+		const travelled = progress * distances[distances.length - 1];
+
+		// 找到当前所在的线段并插值
+		let segment = 1;
+		while (segment < path.length - 1 && distances[segment] < travelled) segment++;
+		const segmentLength = distances[segment] - distances[segment - 1];
+		const t = segmentLength > 0 ? (travelled - distances[segment - 1]) / segmentLength : 1;
+		groupRef.current.position.lerpVectors(path[segment - 1], path[segment], t);
+
+		if (progress >= 1) {
+			arrivedRef.current = true;
+			onArrive(transit.pilot.id);
+		}
+	});
+
+	return (
+		<group ref={groupRef} position={transit.path[0]}>
+			<Html center zIndexRange={[100, 0]}>
+				<div style={{ transform: `translateY(-${AVATAR_SIZE}px)` }}>
+					<PilotAvatar pilot={transit.pilot} onClick={onPilotClick} />
+				</div>
+			</Html>
+		</group>
+	);
+}
+
+/**
+ * 角色位置标记
+ * 同一星系的角色叠放显示；角色所在星系变化时沿星门连线（最短星门路线）移动到新星系
+ */
+export function PilotMarkers({
+	pilots,
+	systems,
+	connections,
+	moveDuration,
+	maxStacked,
+	mapControl,
+}: {
+	pilots: Pilot[];
+	systems: SolarSystem[];
+	connections: StargateConnection[];
+	/** 每跳的移动时长（毫秒） */
+	moveDuration: number;
+	maxStacked: number;
+	mapControl?: MapControl;
+}) {
+	const systemMap = useMemo(() => new Map(systems.map((system) => [system._key, system])), [systems]);
+	const connectionKeys = useMemo(
+		() => new Set(connections.map(({ from, to }) => `${Math.min(from._key, to._key)}-${Math.max(from._key, to._key)}`)),
+		[connections],
+	);
+	const previousSystemIdsRef = useRef(new Map<Pilot['id'], number>());
+	const [transits, setTransits] = useState<Map<Pilot['id'], PilotTransit>>(new Map());
+
+	// 比较角色前后所在的星系，为变化的角色创建移动动画
+	useEffect(() => {
+		const previousSystemIds = previousSystemIdsRef.current;
+		previousSystemIdsRef.current = new Map(pilots.map((pilot) => [pilot.id, pilot.systemId]));
+
+		const now = performance.now();
+		setTransits((prev) => {
+			const next = new Map<Pilot['id'], PilotTransit>();
+			pilots.forEach((pilot) => {
+				const fromId = previousSystemIds.get(pilot.id);
+				const fromSystem = fromId !== undefined ? systemMap.get(fromId) : undefined;
+				const toSystem = systemMap.get(pilot.systemId);
+				if (fromId === pilot.systemId || !fromSystem || !toSystem) {
+					// 星系未变化时保留进行中的动画，并更新角色信息
+					const existing = prev.get(pilot.id);
+					if (fromId === pilot.systemId && existing) {
+						next.set(pilot.id, { ...existing, pilot });
+					}
+					return;
+				}
+
+				// 相邻星系直接沿连线移动，否则沿最短星门路线移动（无路线时走直线）
+				let systemIds = [fromSystem._key, toSystem._key];
+				const key = `${Math.min(fromSystem._key, toSystem._key)}-${Math.max(fromSystem._key, toSystem._key)}`;
+				if (!connectionKeys.has(key)) {
+					systemIds = findRoute(systems, connections, [], fromSystem._key, toSystem._key)?.systemIds ?? systemIds;
+				}
+				const path = systemIds.map((systemId) => toRenderPosition(systemMap.get(systemId)!));
+				const distances = [0];
+				for (let i = 1; i < path.length; i++) {
+					distances.push(distances[i - 1] + path[i - 1].distanceTo(path[i]));
+				}
+				next.set(pilot.id, { pilot, path, distances, startTime: now, duration: moveDuration * (path.length - 1) });
+			});
+			return next;
+		});
+	}, [pilots, systems, systemMap, connections, connectionKeys, moveDuration]);
+
+	const handleArrive = (pilotId: Pilot['id']) => {
+		setTransits((prev) => {
+			if (!prev.has(pilotId)) return prev;
+			const next = new Map(prev);
+			next.delete(pilotId);
+			return next;
+		});
+	};
+
+	const handlePilotClick = (pilot: Pilot) => {
+		mapControl?.getConfig().events?.onPilotClick?.(pilot);
+	};
+
+	// 未在移动中的角色按所在星系分组
+	const stacks = useMemo(() => {
+		const bySystem = new Map<number, Pilot[]>();
+		pilots.forEach((pilot) => {
+			if (transits.has(pilot.id) || !systemMap.has(pilot.systemId)) return;
+			const list = bySystem.get(pilot.systemId);
+			if (list) {
+				list.push(pilot);
+			} else {
+				bySystem.set(pilot.systemId, [pilot]);
+			}
+		});
+		return Array.from(bySystem.entries());
+	}, [pilots, transits, systemMap]);
+
+	return (
+		<>
+			{stacks.map(([systemId, stackPilots]) => (
+				<PilotStack
+					key={systemId}
+					system={systemMap.get(systemId)!}
+					pilots={stackPilots}
+					maxStacked={maxStacked}
+					onPilotClick={handlePilotClick}
+				/>
+			))}
+			{Array.from(transits.values()).map((transit) => (
+				<MovingPilot key={transit.pilot.id} transit={transit} onArrive={handleArrive} onPilotClick={handlePilotClick} />
+			))}
+		</>
+	);
+}
@@ -3,6 +3,7 @@ import { type ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
 import type { Language, MapControl, Region, SolarSystem } from '../types';
+import { getLocalizedName } from '../i18n';
 
 export function RegionLabel({
 	region,
@@ -88,7 +89,7 @@ export function RegionLabel({
 		}
 	});
 
-	const regionName = language === 'zh' ? region.name.zh || region.name.en : region.name.en || region.name.zh;
+	const regionName = getLocalizedName(region.name, language);
 	const labelColor = isHighlighted ? (style?.labelColor || '#ffff00') : '#ffffff';
 
 	const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
@@ -0,0 +1,131 @@
+import { useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { RouteLeg, RoutePlan, SolarSystem } from '../types';
+
+function buildLegGeometry(legs: RouteLeg[], systemMap: Map<number, SolarSystem>) {
+	const positions: number[] = [];
+	legs.forEach((leg) => {
+		const from = systemMap.get(leg.fromSystemId);
+		const to = systemMap.get(leg.toSystemId);
+		if (!from || !to) return;
+		positions.push(-from.position.x, -from.position.y, from.position.z, -to.position.x, -to.position.y, to.position.z);
+	});
+	const geometry = new THREE.BufferGeometry();
+	geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+	return geometry;
+}
+
+/**
+ * 规划路线图层：独立于星门连接线，渲染路线折线以及每个途经星系的跳数标签
+ * 星门段与跳桥段使用不同颜色区分
+ */
+export function RoutePath({
+	route,
+	systemMap,
+	style,
+}: {
+	route: RoutePlan;
+	systemMap: Map<number, SolarSystem>;
+	style?: { routeLineColor?: string; routeLineOpacity?: number; routeJumpgateLineColor?: string };
+}) {
+	const color = style?.routeLineColor || '#ffd700';
+	const jumpgateColor = style?.routeJumpgateLineColor || '#00ff7f';
+	const opacity = style?.routeLineOpacity !== undefined ? style.routeLineOpacity : 0.95;
+
+	const { stargateGeometry, jumpgateGeometry } = useMemo(
+		() => ({
+			stargateGeometry: buildLegGeometry(
+				route.legs.filter((leg) => leg.type === 'stargate'),
+				systemMap,
+			),
+			jumpgateGeometry: buildLegGeometry(
+				route.legs.filter((leg) => leg.type === 'jumpgate'),
+				systemMap,
+			),
+		}),
+		[route, systemMap],
+	);
+
+	const stargateMaterial = useMemo(
+		() =>
+			new THREE.LineBasicMaterial({
+				color,
+				transparent: opacity < 1,
+				opacity,
+				depthTest: false,
+			}),
+		[color, opacity],
+	);
+
+	const jumpgateMaterial = useMemo(
+		() =>
+			new THREE.LineBasicMaterial({
+				color: jumpgateColor,
+				transparent: opacity < 1,
+				opacity,
+				depthTest: false,
+			}),
+		[jumpgateColor, opacity],
+	);
+
+	useEffect(() => {
+		return () => {
+			stargateGeometry.dispose();
+			jumpgateGeometry.dispose();
+		};
+	}, [stargateGeometry, jumpgateGeometry]);
+
+	useEffect(() => {
+		return () => {
+			stargateMaterial.dispose();
+			jumpgateMaterial.dispose();
+		};
+	}, [stargateMaterial, jumpgateMaterial]);
+
+	const waypoints = useMemo(
+		() =>
+			route.systemIds
+				.map((systemId, index) => ({
+					system: systemMap.get(systemId),
+					index,
+					// 到达该星系所使用的连接方式（起点没有）
+					arrivedBy: index > 0 ? route.legs[index - 1]?.type : undefined,
+				}))
+				.filter((waypoint): waypoint is { system: SolarSystem; index: number; arrivedBy: RouteLeg['type'] | undefined } => waypoint.system !== undefined),
+		[route, systemMap],
+	);
+
+	return (
+		<>
+			<lineSegments geometry={stargateGeometry} material={stargateMaterial} renderOrder={1} raycast={() => null} />
+			<lineSegments geometry={jumpgateGeometry} material={jumpgateMaterial} renderOrder={1} raycast={() => null} />
+			{waypoints.map(({ system, index, arrivedBy }) => {
+				const labelColor = arrivedBy === 'jumpgate' ? jumpgateColor : color;
+				return (
+					<Html key={system._key} position={[-system.position.x, -system.position.y, system.position.z]} center zIndexRange={[90, 0]}>
+						<div
+							style={{
+								minWidth: '18px',
+								padding: '1px 5px',
+								borderRadius: '9px',
+								background: 'rgba(0, 0, 0, 0.75)',
+								border: `1px solid ${labelColor}`,
+								color: labelColor,
+								fontSize: '11px',
+								fontFamily: 'monospace',
+								textAlign: 'center',
+								whiteSpace: 'nowrap',
+								pointerEvents: 'none',
+								userSelect: 'none',
+								transform: 'translateY(-18px)',
+							}}
+						>
+							{arrivedBy === 'jumpgate' ? `${index} ⇢` : index}
+						</div>
+					</Html>
+				);
+			})}
+		</>
+	);
+}
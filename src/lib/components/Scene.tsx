@@ -3,19 +3,35 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import type {
+	Constellation,
 	CustomStyleConfig,
+	HeatmapConfig,
+	IntelConfig,
+	IntelEntry,
+	JSpaceConfig,
 	JumpDriveConfig,
+	JumpRoutePlan,
 	Jumpgate,
 	Language,
+	LocaleStrings,
 	MapControl,
+	MeasureResult,
+	PickingConfig,
+	Pilot,
+	PilotMarkersConfig,
 	Region,
+	RoutePlan,
 	SecurityColorConfig,
 	SolarSystem,
+	Star,
+	StarColorConfig,
 	Stargate,
 	SystemRenderConfig,
+	TerritoryColorConfig,
+	WormholeConnection,
 } from '../types';
 import { isNewEdenSystem } from '../utils';
-import { JUMP_DRIVE_LIGHTYEAR_IN_METERS } from './constants';
+import { getLocalizedName, isCJKLanguage } from '../i18n';
 import { JumpDriveBubble } from './JumpDriveBubble';
 import { JumpgateConnections } from './JumpgateConnections';
 import { StargateConnections } from './StargateConnections';
@@ -23,8 +39,23 @@ import { SolarSystemPoints } from './SolarSystemPoints';
 import { SelectionRing } from './SelectionRing';
 import { SolarSystemLabel } from './SolarSystemLabel';
 import { RegionLabel } from './RegionLabel';
+import { ConstellationLabel } from './ConstellationLabel';
 import { Compass2DInternal } from './Compass2D';
 import { HomeIcon } from './HomeIcon';
+import { RoutePath } from './RoutePath';
+import { JumpRouteArcs } from './JumpRouteArcs';
+import { TerritoryHulls } from './TerritoryHulls';
+import { IntelMarkers } from './IntelMarkers';
+import { PilotMarkers } from './PilotMarkers';
+import { MeasureLine } from './MeasureLine';
+import { WormholeConnections } from './WormholeConnections';
+import { WormholeClassLabels } from './WormholeClassLabels';
+import { DEFAULT_INTEL_COLOR, DEFAULT_INTEL_TTL, DEFAULT_PILOT_MAX_STACKED, DEFAULT_PILOT_MOVE_DURATION } from './constants';
+import { computeJumpDriveState, normalizeJumpDriveConfigs, type JumpDriveState } from './utils/computeJumpDriveState';
+import type { TerritoryColors } from './utils/resolveTerritoryColors';
+import type { StarColors } from './utils/resolveStarColors';
+import type { JSpaceClassGroup } from './utils/layoutJSpace';
+import type { HeatmapScale } from './utils/createHeatmapScale';
 import { detectLabelVisibility, type ProjectedLabel } from './utils/labelOverlapDetection';
 
 export function Scene({
@@ -32,38 +63,95 @@ export function Scene({
 	stargates,
 	jumpgates = [],
 	regions,
+	constellations,
 	onSystemClick,
+	onSystemHover,
+	onSystemContextMenu,
+	hoverThrottleMs,
+	picking,
 	onRegionClick,
+	onConstellationClick,
 	highlightedRegionId,
+	highlightedConstellationId = null,
 	highlightedSystemIds,
 	selectedSystemId,
 	systemRenderConfigs,
 	securityColors,
+	territory,
+	territoryColors,
+	star,
+	starColors,
+	starsBySystem,
+	heatmap,
+	heatmapScale,
+	wormholeClassColors,
+	wormholeClassGroups,
+	wormholeConnections = [],
+	jspace,
 	language,
 	style,
 	filterNewEdenOnly,
 	systemFilter,
 	mapControl,
 	jumpDriveConfig,
+	route,
+	jumpRoute,
+	intelReports = [],
+	intel,
+	pilots = [],
+	pilotMarkers,
+	measurement = null,
+	measureStartSystemId = null,
+	strings,
 	onCompassRotationChange,
 }: {
 	systems: SolarSystem[];
 	stargates: Stargate[];
 	jumpgates?: Jumpgate[];
 	regions?: Region[];
+	constellations?: Constellation[];
 	onSystemClick: (system: SolarSystem) => void;
+	onSystemHover?: (system: SolarSystem | null) => void;
+	onSystemContextMenu?: (system: SolarSystem | null) => void;
+	hoverThrottleMs?: number;
+	picking?: PickingConfig;
 	onRegionClick?: (region: Region) => void;
+	onConstellationClick?: (constellation: Constellation) => void;
 	highlightedRegionId: number | null;
+	highlightedConstellationId?: number | null;
 	highlightedSystemIds: Set<number>;
 	selectedSystemId: number | null;
 	systemRenderConfigs?: SystemRenderConfig[];
 	securityColors?: SecurityColorConfig;
+	territory?: TerritoryColorConfig;
+	territoryColors?: TerritoryColors | null;
+	star?: StarColorConfig;
+	starColors?: StarColors | null;
+	/** 星系ID -> 恒星，用于点击事件 */
+	starsBySystem?: Map<number, Star>;
+	heatmap?: HeatmapConfig;
+	heatmapScale?: HeatmapScale | null;
+	/** 虫洞空间视图：星系ID -> 等级颜色（优先于领地着色） */
+	wormholeClassColors?: Map<number, string>;
+	/** 虫洞空间视图：各等级分组，用于显示分组标签 */
+	wormholeClassGroups?: JSpaceClassGroup[];
+	wormholeConnections?: WormholeConnection[];
+	jspace?: JSpaceConfig;
 	language: Language;
 	style?: CustomStyleConfig;
 	filterNewEdenOnly?: boolean;
 	systemFilter?: (system: SolarSystem) => boolean;
 	mapControl?: MapControl;
-	jumpDriveConfig?: JumpDriveConfig;
+	jumpDriveConfig?: JumpDriveConfig | JumpDriveConfig[];
+	route?: RoutePlan | null;
+	jumpRoute?: JumpRoutePlan | null;
+	intelReports?: IntelEntry[];
+	intel?: IntelConfig;
+	pilots?: Pilot[];
+	pilotMarkers?: PilotMarkersConfig;
+	measurement?: MeasureResult | null;
+	measureStartSystemId?: number | null;
+	strings: LocaleStrings;
 	onCompassRotationChange?: (rotation: number) => void;
 }) {
 	const [filteredSystems, setFilteredSystems] = useState<SolarSystem[]>([]);
@@ -86,6 +174,30 @@ export function Scene({
 		}
 	}, [mapControl, filteredSystems]);
 
+	useEffect(() => {
+		if (mapControl?.__internal?.setRegions) {
+			mapControl.__internal.setRegions(regions ?? []);
+		}
+	}, [mapControl, regions]);
+
+	useEffect(() => {
+		if (mapControl?.__internal?.setConstellations) {
+			mapControl.__internal.setConstellations(constellations ?? []);
+		}
+	}, [mapControl, constellations]);
+
+	useEffect(() => {
+		if (mapControl?.__internal?.setJumpgates) {
+			mapControl.__internal.setJumpgates(jumpgates);
+		}
+	}, [mapControl, jumpgates]);
+
+	useEffect(() => {
+		if (mapControl?.__internal?.setConnections) {
+			mapControl.__internal.setConnections(connections);
+		}
+	}, [mapControl, connections]);
+
 	useEffect(() => {
 		const bgColor = style?.backgroundColor || '#000000';
 		const colorValue = bgColor.startsWith('#') ? parseInt(bgColor.replace('#', ''), 16) : parseInt(bgColor, 16);
@@ -100,72 +212,36 @@ export function Scene({
 		return map;
 	}, [systems]);
 
-	const jumpDriveState = useMemo(() => {
-		if (!jumpDriveConfig) return null;
-		const rangeLightYears = jumpDriveConfig.rangeLightYears;
-		if (!Number.isFinite(rangeLightYears) || rangeLightYears <= 0) {
-			return null;
-		}
-		let originVector: THREE.Vector3 | null = null;
-		let originSystemId: number | null = null;
-		if (jumpDriveConfig.originSystemId !== undefined) {
-			const originSystem = systemMap.get(jumpDriveConfig.originSystemId);
-			if (originSystem) {
-				originVector = new THREE.Vector3(-originSystem.position.x, -originSystem.position.y, originSystem.position.z);
-				originSystemId = originSystem._key;
-			}
-		}
-		if (!originVector && jumpDriveConfig.originPosition) {
-			const { x, y, z } = jumpDriveConfig.originPosition;
-			if ([x, y, z].every((value) => Number.isFinite(value))) {
-				originVector = new THREE.Vector3(x, y, z);
-			}
-		}
-		if (!originVector) {
-			return null;
-		}
-		const rangeMeters = rangeLightYears * JUMP_DRIVE_LIGHTYEAR_IN_METERS;
-		if (!Number.isFinite(rangeMeters) || rangeMeters <= 0) {
-			return null;
+	const jumpDriveStates = useMemo(
+		() =>
+			normalizeJumpDriveConfigs(jumpDriveConfig)
+				.map((config) => ({ config, state: computeJumpDriveState(config, filteredSystems, systemMap) }))
+				.filter((entry): entry is { config: JumpDriveConfig; state: JumpDriveState } => entry.state !== null),
+		[jumpDriveConfig, filteredSystems, systemMap],
+	);
+
+	useEffect(() => {
+		if (mapControl?.__internal?.setJumpDriveReachableSystemIds) {
+			mapControl.__internal.setJumpDriveReachableSystemIds(jumpDriveStates.map(({ state }) => state.reachableSystems.map((system) => system._key)));
 		}
-		const rangeSquared = rangeMeters * rangeMeters;
-		const reachableSystems = filteredSystems.filter((system) => {
-			if (!Number.isFinite(system.securityStatus) || system.securityStatus >= 0.45) {
-				return false;
-			}
-			const dx = -system.position.x - originVector!.x;
-			const dy = -system.position.y - originVector!.y;
-			const dz = system.position.z - originVector!.z;
-			return dx * dx + dy * dy + dz * dz <= rangeSquared;
-		});
-		return {
-			origin: originVector,
-			rangeMeters,
-			reachableSystems,
-			originSystemId,
-		};
-	}, [jumpDriveConfig, filteredSystems, systemMap]);
+	}, [mapControl, jumpDriveStates]);
 
 	const effectiveSystemRenderConfigs = useMemo(() => (systemRenderConfigs ? [...systemRenderConfigs] : undefined), [systemRenderConfigs]);
 
-	const jumpDriveHighlightData = useMemo(() => {
-		if (!jumpDriveState || jumpDriveConfig?.showReachableSystems === false) {
-			return undefined;
-		}
-		const systems = jumpDriveState.reachableSystems;
-		if (systems.length === 0) {
-			return undefined;
-		}
-		const color = jumpDriveConfig?.reachableSystemColor ?? '#00ffff';
-		const scale = Math.max(jumpDriveConfig?.reachableSystemSizeMultiplier ?? 1.6, 1.05);
-		const opacity = Math.min(Math.max(jumpDriveConfig?.reachableSystemOpacity ?? 0.8, 0), 1);
-		return {
-			systems,
-			color,
-			scale,
-			opacity,
-		};
-	}, [jumpDriveState, jumpDriveConfig]);
+	const jumpDriveHighlightData = useMemo(
+		() =>
+			jumpDriveStates
+				.filter(({ config }) => config.showReachableSystems !== false)
+				.map(({ config, state }) => ({
+					// 起点星系已有 HomeIcon 标记，不再绘制可达环
+					systems: state.reachableSystems.filter((system) => system._key !== state.originSystemId),
+					color: config.reachableSystemColor ?? '#00ffff',
+					scale: Math.max(config.reachableSystemSizeMultiplier ?? 1.6, 1.05),
+					opacity: Math.min(Math.max(config.reachableSystemOpacity ?? 0.8, 0), 1),
+				}))
+				.filter((highlight) => highlight.systems.length > 0),
+		[jumpDriveStates],
+	);
 
 	useEffect(() => {
 		let filtered = filterNewEdenOnly !== false ? systems.filter((s) => isNewEdenSystem(s._key)) : systems;
@@ -248,6 +324,7 @@ export function Scene({
 
 	const [visibleRegionIds, setVisibleRegionIds] = useState<Set<number>>(new Set());
 	const [visibleSystemIds, setVisibleSystemIds] = useState<Set<number>>(new Set());
+	const [visibleConstellationIds, setVisibleConstellationIds] = useState<Set<number>>(new Set());
 	
 	const frameCounterRef = useRef(0);
 	const lastCameraPositionRef = useRef(new THREE.Vector3());
@@ -259,6 +336,8 @@ export function Scene({
 	// 相机移动：更新频率提高（阈值减小）
 	const MIN_STABILITY_THRESHOLD = 5;
 	const MAX_STABILITY_THRESHOLD = 30;
+	// 未高亮星域时，相机距离超过该值不显示星座标签（避免与星域标签混杂）
+	const MAX_CONSTELLATION_LABEL_DISTANCE = 2.5e17;
 
 	const systemsByRegion = useMemo(() => {
 		const map = new Map<number, SolarSystem[]>();
@@ -270,6 +349,28 @@ export function Scene({
 		return map;
 	}, [filteredSystems]);
 
+	// 星座中心点（只包含有可见星系的星座）
+	const constellationCenters = useMemo(() => {
+		const map = new Map<number, THREE.Vector3>();
+		if (!constellations || constellations.length === 0) {
+			return map;
+		}
+		const sums = new Map<number, { center: THREE.Vector3; count: number }>();
+		filteredSystems.forEach((system) => {
+			const entry = sums.get(system.constellationID) || { center: new THREE.Vector3(), count: 0 };
+			entry.center.add(new THREE.Vector3(-system.position.x, -system.position.y, system.position.z));
+			entry.count += 1;
+			sums.set(system.constellationID, entry);
+		});
+		constellations.forEach((constellation) => {
+			const entry = sums.get(constellation._key);
+			if (entry) {
+				map.set(constellation._key, entry.center.divideScalar(entry.count));
+			}
+		});
+		return map;
+	}, [constellations, filteredSystems]);
+
 	// 缓存需要显示标签的星系列表，避免每次渲染时重复过滤
 	const systemsToLabel = useMemo(() => {
 		if (highlightedRegionId !== null) {
@@ -311,6 +412,7 @@ export function Scene({
 		
 		if (shouldUpdate) {
 			updateRegionLabels();
+			updateConstellationLabels();
 			updateSystemLabels();
 		}
 		
@@ -332,7 +434,7 @@ export function Scene({
 		const projected: ProjectedLabel[] = [];
 		const baseFontSize = (style?.labelFontSize || 2e15) * 1.5;
 		const fov = (camera as THREE.PerspectiveCamera).fov * (Math.PI / 180);
-		const avgCharWidth = language === 'zh' ? 1.0 : 0.6;
+		const avgCharWidth = isCJKLanguage(language) ? 1.0 : 0.6;
 
 		// 投影所有区域标签
 		for (const region of regions) {
@@ -358,7 +460,7 @@ export function Scene({
 			// 计算屏幕空间尺寸
 			const isHighlighted = highlightedRegionId === region._key;
 			const scale = dist / (isHighlighted ? 1e17 : 2e17);
-			const regionName = language === 'zh' ? region.name.zh || region.name.en : region.name.en || region.name.zh;
+			const regionName = getLocalizedName(region.name, language);
 			const textLength = regionName?.length || 10;
 			
 			const worldSize = baseFontSize * scale;
@@ -382,6 +484,79 @@ export function Scene({
 		setVisibleRegionIds(newVisibleSet);
 	}
 
+	// 星座标签更新逻辑
+	function updateConstellationLabels() {
+		if (!constellations || constellationCenters.size === 0) {
+			if (visibleConstellationIds.size > 0) {
+				setVisibleConstellationIds(new Set());
+			}
+			return;
+		}
+
+		interface ProjectedConstellationLabel extends ProjectedLabel {
+			isHighlighted: boolean;
+		}
+
+		const projected: ProjectedConstellationLabel[] = [];
+		const baseFontSize = style?.labelFontSize || 2e15;
+		const fov = (camera as THREE.PerspectiveCamera).fov * (Math.PI / 180);
+		const avgCharWidth = isCJKLanguage(language) ? 1.0 : 0.6;
+
+		for (const constellation of constellations) {
+			const center = constellationCenters.get(constellation._key);
+			if (!center) continue;
+
+			// 高亮星域时只显示该星域内的星座，否则按距离裁剪
+			const isHighlighted = highlightedConstellationId === constellation._key;
+			const dist = camera.position.distanceTo(center);
+			if (!isHighlighted) {
+				if (highlightedRegionId !== null) {
+					if (constellation.regionID !== highlightedRegionId) continue;
+				} else if (dist > MAX_CONSTELLATION_LABEL_DISTANCE) {
+					continue;
+				}
+			}
+
+			const projectedPos = center.clone().project(camera);
+
+			// 视野裁剪
+			if (projectedPos.z > 1 || projectedPos.z < -1 ||
+				Math.abs(projectedPos.x) > 1.2 || Math.abs(projectedPos.y) > 1.2) {
+				continue;
+			}
+
+			// 计算屏幕空间尺寸
+			const scale = dist / (isHighlighted ? 1.5e17 : 2.5e17);
+			const constellationName = getLocalizedName(constellation.name, language);
+			const textLength = constellationName?.length || 10;
+
+			const worldSize = baseFontSize * scale;
+			const screenHeightFactor = 2 * Math.tan(fov / 2) * dist;
+			const screenSpaceSize = worldSize / screenHeightFactor;
+
+			const screenWidth = screenSpaceSize * textLength * avgCharWidth * 1.2;
+			const screenHeight = screenSpaceSize * 1.5;
+
+			projected.push({
+				id: constellation._key,
+				screenPos: projectedPos,
+				dist,
+				screenWidth,
+				screenHeight,
+				isHighlighted,
+			});
+		}
+
+		// 高亮星座优先，然后按距离
+		const newVisibleSet = detectLabelVisibility(projected, (a, b) => {
+			if (a.isHighlighted !== b.isHighlighted) {
+				return a.isHighlighted ? -1 : 1;
+			}
+			return a.dist - b.dist;
+		});
+		setVisibleConstellationIds(newVisibleSet);
+	}
+
 	// 星系标签更新逻辑
 	function updateSystemLabels() {
 		// 使用缓存的星系列表
@@ -400,7 +575,7 @@ export function Scene({
 		const projectedSystems: ProjectedSystemLabel[] = [];
 		const baseFontSize = style?.labelFontSize || 1e15;
 		const fov = (camera as THREE.PerspectiveCamera).fov * (Math.PI / 180);
-		const avgCharWidth = language === 'zh' ? 1.0 : 0.6;
+		const avgCharWidth = isCJKLanguage(language) ? 1.0 : 0.6;
 		const maxGrayLabelDistance = 4e17;
 		
 		// 投影所有星系标签
@@ -425,7 +600,7 @@ export function Scene({
 			
 			// 计算屏幕空间尺寸
 			const scale = dist / 5e16 * (isHighlightedRegion ? 0.9 : 1.3);
-			const systemName = language === 'zh' ? system.name.zh || system.name.en : system.name.en || system.name.zh;
+			const systemName = getLocalizedName(system.name, language);
 			const nameLength = systemName?.length || 10;
 			const textLength = nameLength + 4; // +4 for security status " 0.0"
 			
@@ -461,8 +636,10 @@ export function Scene({
 		<>
 			<ambientLight intensity={0.5} />
 			<pointLight position={[0, 0, 0]} intensity={1} />
-			{jumpDriveState && jumpDriveConfig?.showBubble !== false && (
-				<JumpDriveBubble origin={jumpDriveState.origin} radius={jumpDriveState.rangeMeters} color={jumpDriveConfig?.bubbleColor ?? '#00ffff'} opacity={jumpDriveConfig?.bubbleOpacity ?? 0.12} />
+			{jumpDriveStates.map(({ config, state }, index) =>
+				config.showBubble !== false ? (
+					<JumpDriveBubble key={index} origin={state.origin} radius={state.rangeMeters} color={config.bubbleColor ?? '#00ffff'} opacity={config.bubbleOpacity ?? 0.12} />
+				) : null,
 			)}
 			{jumpgateConnections.length > 0 && (
 				<JumpgateConnections connections={jumpgateConnections} highlightedRegionId={highlightedRegionId} highlightedSystemIds={highlightedSystemIds} style={style} />
@@ -470,16 +647,44 @@ export function Scene({
 			{connections.length > 0 && (
 				<StargateConnections connections={connections} highlightedRegionId={highlightedRegionId} highlightedSystemIds={highlightedSystemIds} style={style} />
 			)}
+			{wormholeConnections.length > 0 && (
+				<WormholeConnections connections={wormholeConnections} systems={filteredSystems} highlightedSystemIds={highlightedSystemIds} config={jspace} />
+			)}
+			{territoryColors && territory?.showRegionHulls && (
+				<TerritoryHulls systemsByRegion={systemsByRegion} owners={territory.owners} ownerColors={territoryColors.ownerColors} opacity={territory.regionHullOpacity} />
+			)}
+			{route && <RoutePath route={route} systemMap={systemMap} style={style} />}
+			{jumpRoute && <JumpRouteArcs jumpRoute={jumpRoute} systemMap={systemMap} style={style} />}
+			{(measurement || measureStartSystemId !== null) && (
+				<MeasureLine
+					measurement={measurement}
+					startSystem={measureStartSystemId !== null ? systemMap.get(measureStartSystemId) ?? null : null}
+					systemMap={systemMap}
+					color={style?.measureLineColor || '#e040fb'}
+					strings={strings}
+				/>
+			)}
 			{filteredSystems.length > 0 && (
 				<SolarSystemPoints
 					systems={filteredSystems}
 					onSystemClick={onSystemClick}
+					onSystemHover={onSystemHover}
+					onSystemContextMenu={onSystemContextMenu}
+					hoverThrottleMs={hoverThrottleMs}
+					pickingMode={picking?.mode}
+					pickTolerance={picking?.tolerance}
 					highlightedRegionId={highlightedRegionId}
 					highlightedSystemIds={highlightedSystemIds}
 					systemRenderConfigs={effectiveSystemRenderConfigs}
 					securityColors={securityColors}
-					jumpDriveHighlight={jumpDriveHighlightData}
-					jumpDriveConfig={jumpDriveConfig}
+					territoryColors={wormholeClassColors ?? territoryColors?.systemColors}
+					unclaimedColor={territory?.unclaimedColor}
+					starColors={starColors}
+					missingStarColor={star?.missingColor}
+					starsBySystem={starsBySystem}
+					heatmap={heatmap}
+					heatmapScale={heatmapScale}
+					jumpDriveHighlights={jumpDriveHighlightData}
 					mapControl={mapControl}
 				/>
 			)}
@@ -489,12 +694,31 @@ export function Scene({
 					if (!selectedSystem) return null;
 					return <SelectionRing system={selectedSystem} />;
 				})()}
-			{jumpDriveState && jumpDriveState.originSystemId !== null &&
-				(() => {
-					const originSystem = filteredSystems.find((s) => s._key === jumpDriveState.originSystemId);
-					if (!originSystem) return null;
-					return <HomeIcon system={originSystem} onSystemClick={onSystemClick} />;
-				})()}
+			{intelReports.length > 0 && (
+				<IntelMarkers
+					reports={intelReports}
+					systems={filteredSystems}
+					ttl={intel?.ttl ?? DEFAULT_INTEL_TTL}
+					color={intel?.color ?? DEFAULT_INTEL_COLOR}
+					showBadge={intel?.showBadge !== false}
+				/>
+			)}
+			{pilots.length > 0 && (
+				<PilotMarkers
+					pilots={pilots}
+					systems={filteredSystems}
+					connections={connections}
+					moveDuration={pilotMarkers?.moveDuration ?? DEFAULT_PILOT_MOVE_DURATION}
+					maxStacked={Math.max(pilotMarkers?.maxStacked ?? DEFAULT_PILOT_MAX_STACKED, 1)}
+					mapControl={mapControl}
+				/>
+			)}
+			{jumpDriveStates.map(({ config, state }, index) => {
+				if (state.originSystemId === null) return null;
+				const originSystem = filteredSystems.find((s) => s._key === state.originSystemId);
+				if (!originSystem) return null;
+				return <HomeIcon key={index} system={originSystem} label={config.label} color={jumpDriveStates.length > 1 ? config.bubbleColor : undefined} onSystemClick={onSystemClick} />;
+			})}
 			{systemsToLabel.length > 0 &&
 				systemsToLabel.map((system) => (
 					<SolarSystemLabel 
@@ -506,6 +730,7 @@ export function Scene({
 						visible={visibleSystemIds.has(system._key)}
 					/>
 				))}
+			{wormholeClassGroups && wormholeClassGroups.length > 0 && <WormholeClassLabels groups={wormholeClassGroups} style={style} />}
 			{regions &&
 				regions.length > 0 &&
 				regions
@@ -523,6 +748,21 @@ export function Scene({
 							mapControl={mapControl}
 						/>
 					))}
+			{constellations &&
+				constellations
+					.filter((constellation) => visibleConstellationIds.has(constellation._key) && constellationCenters.has(constellation._key))
+					.map((constellation) => (
+						<ConstellationLabel
+							key={constellation._key}
+							constellation={constellation}
+							center={constellationCenters.get(constellation._key)!}
+							language={language}
+							style={style}
+							isHighlighted={highlightedConstellationId === constellation._key}
+							onClick={onConstellationClick}
+							mapControl={mapControl}
+						/>
+					))}
 			<OrbitControls ref={controlsRef} enablePan={true} enableZoom={true} enableRotate={true} minDistance={7e16} maxDistance={1e18} autoRotate={false} zoomSpeed={-1} />
 			{onCompassRotationChange && <Compass2DInternal onRotationChange={onCompassRotationChange} />}
 		</>
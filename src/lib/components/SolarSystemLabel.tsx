@@ -3,6 +3,7 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
 import type { Language, SolarSystem } from '../types';
+import { getLocalizedName } from '../i18n';
 
 // 根据安全等级获取颜色
 function getSecurityColor(securityStatus: number): string {
@@ -117,7 +118,7 @@ export function SolarSystemLabel({
 		}
 	});
 
-	const systemName = language === 'zh' ? system.name.zh || system.name.en : system.name.en || system.name.zh;
+	const systemName = getLocalizedName(system.name, language);
 	const nameColor = isHighlightedRegion ? '#999' : style?.labelColor || 'white';
 	const securityColor = getSecurityColor(system.securityStatus);
 	const fontSize = isHighlightedRegion ? grayFontSize : baseFontSize;
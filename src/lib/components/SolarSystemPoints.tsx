@@ -1,44 +1,73 @@
 import { useEffect, useMemo, useRef } from 'react';
 import { useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import type { JumpDriveConfig, MapControl, SecurityColorConfig, SolarSystem, SystemRenderConfig } from '../types';
-import { DEFAULT_HIGHLIGHT_COLORS, DEFAULT_SECURITY_COLORS, SYSTEM_POINT_SIZE } from './constants';
+import type { HeatmapConfig, MapControl, PickingMode, SecurityColorConfig, SolarSystem, Star, SystemRenderConfig } from '../types';
+import { DEFAULT_HIGHLIGHT_COLORS, DEFAULT_SECURITY_COLORS, HIGHSEC_SECURITY_THRESHOLD, SYSTEM_POINT_SIZE } from './constants';
 import { clampSystemPointBaseScale } from './utils/clampSystemPointBaseScale';
+import type { HeatmapScale } from './utils/createHeatmapScale';
+import type { StarColors } from './utils/resolveStarColors';
+import { findNearestScreenPoint } from './utils/findNearestScreenPoint';
+import {
+	createSystemPointsMaterial,
+	SYSTEM_POINT_FLAG_HIDDEN,
+} from './utils/createSystemPointsMaterial';
 import { JumpDriveReachableRings } from './JumpDriveReachableRings';
 
 export function SolarSystemPoints({
 	systems,
 	onSystemClick,
+	onSystemHover,
+	onSystemContextMenu,
+	hoverThrottleMs = 50,
+	pickingMode = 'screen',
+	pickTolerance = 6,
 	highlightedRegionId,
 	highlightedSystemIds,
 	systemRenderConfigs,
 	securityColors,
-	jumpDriveHighlight,
-	jumpDriveConfig,
+	territoryColors,
+	unclaimedColor,
+	starColors,
+	missingStarColor,
+	starsBySystem,
+	heatmap,
+	heatmapScale,
+	jumpDriveHighlights,
 	mapControl,
 }: {
 	systems: SolarSystem[];
 	onSystemClick: (system: SolarSystem) => void;
+	onSystemHover?: (system: SolarSystem | null) => void;
+	/** 右键时回调右键位置下的星系（未命中时为 null），在容器的 contextmenu 事件之前触发 */
+	onSystemContextMenu?: (system: SolarSystem | null) => void;
+	hoverThrottleMs?: number;
+	pickingMode?: PickingMode;
+	pickTolerance?: number;
 	highlightedRegionId: number | null;
 	highlightedSystemIds: Set<number>;
 	systemRenderConfigs?: SystemRenderConfig[];
 	securityColors?: SecurityColorConfig;
-	jumpDriveHighlight?: {
+	/** 领地着色：星系ID -> 颜色 */
+	territoryColors?: Map<number, string>;
+	/** 领地着色时无归属星系的颜色（不传入则按安全等级着色） */
+	unclaimedColor?: string;
+	/** 恒星着色：星系颜色与大小 */
+	starColors?: StarColors | null;
+	/** 恒星着色时没有恒星数据的星系颜色（不传入则按安全等级着色） */
+	missingStarColor?: string;
+	/** 星系ID -> 恒星，点击事件中附带 */
+	starsBySystem?: Map<number, Star>;
+	heatmap?: HeatmapConfig;
+	heatmapScale?: HeatmapScale | null;
+	jumpDriveHighlights?: Array<{
 		systems: SolarSystem[];
 		color: string;
 		scale: number;
 		opacity: number;
-	};
-	jumpDriveConfig?: JumpDriveConfig;
+	}>;
 	mapControl?: MapControl;
 }) {
-	const highsecNormalRef = useRef<THREE.InstancedMesh>(null);
-	const highsecHighlightRef = useRef<THREE.InstancedMesh>(null);
-	const lowsecNormalRef = useRef<THREE.InstancedMesh>(null);
-	const lowsecHighlightRef = useRef<THREE.InstancedMesh>(null);
-	const nullsecNormalRef = useRef<THREE.InstancedMesh>(null);
-	const nullsecHighlightRef = useRef<THREE.InstancedMesh>(null);
-	const customSystemsRefs = useRef<Map<string, THREE.InstancedMesh>>(new Map());
+	const hoveredSystemIdRef = useRef<number | null>(null);
 	const raycaster = useMemo(() => new THREE.Raycaster(), []);
 	const mouse = useMemo(() => new THREE.Vector2(), []);
 	const { camera, gl } = useThree();
@@ -52,320 +81,267 @@ export function SolarSystemPoints({
 		[securityColors],
 	);
 
-	const mergedHighlightColors = useMemo(
+	// 预先解析颜色，避免逐实例创建 THREE.Color
+	const securityPalette = useMemo(
 		() => ({
-			highsec: DEFAULT_HIGHLIGHT_COLORS.highsec,
-			lowsec: DEFAULT_HIGHLIGHT_COLORS.lowsec,
-			nullsec: DEFAULT_HIGHLIGHT_COLORS.nullsec,
+			normal: {
+				highsec: new THREE.Color(mergedSecurityColors.highsec),
+				lowsec: new THREE.Color(mergedSecurityColors.lowsec),
+				nullsec: new THREE.Color(mergedSecurityColors.nullsec),
+			},
+			highlighted: {
+				highsec: new THREE.Color(DEFAULT_HIGHLIGHT_COLORS.highsec),
+				lowsec: new THREE.Color(DEFAULT_HIGHLIGHT_COLORS.lowsec),
+				nullsec: new THREE.Color(DEFAULT_HIGHLIGHT_COLORS.nullsec),
+			},
 		}),
-		[],
+		[mergedSecurityColors],
 	);
 
-	const normalGeometry = useMemo(() => new THREE.SphereGeometry(SYSTEM_POINT_SIZE, 32, 32), []);
-	const highlightGeometry = useMemo(() => new THREE.SphereGeometry(SYSTEM_POINT_SIZE * 1.5, 32, 32), []);
-
-	const materials = useMemo(() => {
-		const baseMaterials = {
-			highsec: new THREE.MeshBasicMaterial({
-				color: mergedSecurityColors.highsec,
-				transparent: true,
-				opacity: 0.7,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-			lowsec: new THREE.MeshBasicMaterial({
-				color: mergedSecurityColors.lowsec,
-				transparent: true,
-				opacity: 0.7,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-			nullsec: new THREE.MeshBasicMaterial({
-				color: mergedSecurityColors.nullsec,
-				transparent: true,
-				opacity: 0.7,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-		};
-
-		const highlightMaterials = {
-			highsec: new THREE.MeshBasicMaterial({
-				color: mergedHighlightColors.highsec,
-				transparent: true,
-				opacity: 0.85,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-			lowsec: new THREE.MeshBasicMaterial({
-				color: mergedHighlightColors.lowsec,
-				transparent: true,
-				opacity: 0.85,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-			nullsec: new THREE.MeshBasicMaterial({
-				color: mergedHighlightColors.nullsec,
-				transparent: true,
-				opacity: 0.85,
-				blending: THREE.AdditiveBlending,
-				depthWrite: false,
-			}),
-		};
-
-		return { baseMaterials, highlightMaterials };
-	}, [mergedSecurityColors, mergedHighlightColors]);
-
 	const systemConfigMap = useMemo(() => {
 		if (!systemRenderConfigs) return new Map<number, SystemRenderConfig>();
 		return new Map(systemRenderConfigs.map((config) => [config.systemId, config]));
 	}, [systemRenderConfigs]);
 
-	const systemGroups = useMemo(() => {
-		const groups = {
-			highsec: { normal: [] as SolarSystem[], highlighted: [] as SolarSystem[] },
-			lowsec: { normal: [] as SolarSystem[], highlighted: [] as SolarSystem[] },
-			nullsec: { normal: [] as SolarSystem[], highlighted: [] as SolarSystem[] },
-			custom: [] as Array<{ system: SolarSystem; config: SystemRenderConfig }>,
+	// 所有星系共用一个实例化网格：颜色、大小、透明度和标志位均为逐实例属性，
+	// 高亮或渲染配置变化时原地更新，只有星系数量变化时才重建
+	const material = useMemo(() => createSystemPointsMaterial(), []);
+	const instanceCount = systems.length;
+	const mesh = useMemo(() => {
+		const geometry = new THREE.SphereGeometry(SYSTEM_POINT_SIZE, 32, 32);
+		geometry.setAttribute('instanceOpacity', new THREE.InstancedBufferAttribute(new Float32Array(instanceCount), 1));
+		geometry.setAttribute('instanceFlags', new THREE.InstancedBufferAttribute(new Float32Array(instanceCount), 1));
+
+		const instancedMesh = new THREE.InstancedMesh(geometry, material, instanceCount);
+		instancedMesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(instanceCount * 3), 3);
+		return instancedMesh;
+	}, [instanceCount, material]);
+
+	// 屏幕空间拾取使用的世界坐标与半径，半径随实例大小同步更新
+	const pickPositions = useMemo(() => {
+		const positions = new Float32Array(systems.length * 3);
+		systems.forEach((system, index) => {
+			positions[index * 3] = -system.position.x;
+			positions[index * 3 + 1] = -system.position.y;
+			positions[index * 3 + 2] = system.position.z;
+		});
+		return positions;
+	}, [systems]);
+	const pickRadii = useMemo(() => new Float32Array(instanceCount), [instanceCount]);
+
+	useEffect(() => {
+		return () => {
+			mesh.geometry.dispose();
+			mesh.dispose();
 		};
+	}, [mesh]);
 
-		systems.forEach((system) => {
-			const customConfig = systemConfigMap.get(system._key);
+	useEffect(() => {
+		return () => {
+			material.dispose();
+		};
+	}, [material]);
 
-			if (customConfig) {
-				groups.custom.push({ system, config: customConfig });
-				return;
-			}
+	useEffect(() => {
+		const matrix = new THREE.Matrix4();
+		const color = new THREE.Color();
+		const opacities = mesh.geometry.getAttribute('instanceOpacity') as THREE.InstancedBufferAttribute;
+		const flags = mesh.geometry.getAttribute('instanceFlags') as THREE.InstancedBufferAttribute;
+		const heatmapValues = heatmapScale ? heatmap?.values : undefined;
+		const heatmapOpacity = heatmap?.opacity ?? 0.85;
 
+		systems.forEach((system, index) => {
 			const isHighlighted =
 				(highlightedRegionId !== null && system.regionID === highlightedRegionId) ||
 				highlightedSystemIds.has(system._key);
-			const category = system.securityStatus >= 0.45 ? 'highsec' : system.securityStatus >= 0.0 ? 'lowsec' : 'nullsec';
+			let size: number;
+			let opacity: number;
 
-			if (isHighlighted) {
-				groups[category].highlighted.push(system);
+			// 优先级：自定义渲染配置 > 热力图 > 领地着色 / 恒星着色 > 安全等级
+			const customConfig = systemConfigMap.get(system._key);
+			const heatmapValue = heatmapValues?.[system._key];
+			const territoryColor = territoryColors ? territoryColors.get(system._key) ?? unclaimedColor : undefined;
+			const starColor = starColors?.systemColors.get(system._key);
+			if (customConfig) {
+				const highlighted = customConfig.highlighted || false;
+				color.set(customConfig.color || mergedSecurityColors.highsec);
+				size = clampSystemPointBaseScale(customConfig.size ?? 1.0);
+				opacity = customConfig.opacity !== undefined ? customConfig.opacity : 0.7;
+				if (highlighted) {
+					opacity = Math.min(opacity * 1.2, 1.0);
+				}
+			} else if (heatmapScale && heatmapValue !== undefined && Number.isFinite(heatmapValue)) {
+				const t = heatmapScale.normalize(heatmapValue);
+				heatmapScale.colorAt(t, color);
+				size = heatmapScale.sizeAt(t) * (isHighlighted ? 1.5 : 1);
+				opacity = heatmapOpacity;
+			} else if (territoryColor) {
+				color.set(territoryColor);
+				size = isHighlighted ? 1.5 : 1.0;
+				opacity = isHighlighted ? 0.84 : 0.7;
+			} else if (starColors && (starColor || missingStarColor)) {
+				if (starColor) {
+					color.copy(starColor);
+				} else {
+					color.set(missingStarColor!);
+				}
+				size = (starColors.systemSizes.get(system._key) ?? 1) * (isHighlighted ? 1.5 : 1);
+				opacity = isHighlighted ? 0.84 : 0.7;
 			} else {
-				groups[category].normal.push(system);
+				const category = system.securityStatus >= HIGHSEC_SECURITY_THRESHOLD ? 'highsec' : system.securityStatus >= 0.0 ? 'lowsec' : 'nullsec';
+				color.copy(isHighlighted ? securityPalette.highlighted[category] : securityPalette.normal[category]);
+				size = isHighlighted ? 1.5 : 1.0;
+				opacity = isHighlighted ? 0.85 : 0.7;
 			}
-		});
-
-		return groups;
-	}, [systems, highlightedRegionId, highlightedSystemIds, systemConfigMap]);
 
-	const customSystemGroups = useMemo(() => {
-		const groups = new Map<string, Array<{ system: SolarSystem; config: SystemRenderConfig }>>();
-		systemGroups.custom.forEach(({ system, config }) => {
-			const color = config.color || mergedSecurityColors.highsec;
-			const size = clampSystemPointBaseScale(config.size ?? 1.0);
-			const highlighted = config.highlighted || false;
-			const opacity = config.opacity !== undefined ? config.opacity : 0.9;
-			const key = `${color}-${size}-${highlighted}-${opacity}`;
-
-			if (!groups.has(key)) {
-				groups.set(key, []);
-			}
-			groups.get(key)!.push({ system, config });
+			matrix.makeScale(size, size, size);
+			matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
+			mesh.setMatrixAt(index, matrix);
+			mesh.setColorAt(index, color);
+			opacities.setX(index, opacity);
+			pickRadii[index] = SYSTEM_POINT_SIZE * size;
+			// 高亮已体现在颜色、大小与透明度中，标志位只记录隐藏
+			flags.setX(index, size > 0 && opacity > 0 ? 0 : SYSTEM_POINT_FLAG_HIDDEN);
 		});
-		return groups;
-	}, [systemGroups.custom, mergedSecurityColors]);
-
-	const customMaterialsAndGeometries = useMemo(() => {
-		const result = new Map<string, { material: THREE.MeshBasicMaterial; geometry: THREE.SphereGeometry }>();
-		customSystemGroups.forEach((items, key) => {
-			if (!result.has(key)) {
-				const config = items[0].config;
-				const color = config.color || mergedSecurityColors.highsec;
-				const opacity = config.opacity !== undefined ? config.opacity : 0.7;
-				const scale = clampSystemPointBaseScale(config.size ?? 1.0);
-				const isHighlighted = config.highlighted || false;
-
-				result.set(key, {
-					material: new THREE.MeshBasicMaterial({
-						color,
-						transparent: true,
-						opacity: isHighlighted ? Math.min(opacity * 1.2, 1.0) : opacity,
-						blending: THREE.AdditiveBlending,
-						depthWrite: false,
-					}),
-					geometry: new THREE.SphereGeometry(SYSTEM_POINT_SIZE * scale, 32, 32),
-				});
-			}
-		});
-		return result;
-	}, [customSystemGroups, mergedSecurityColors]);
-
-	// 缓存包围盒计算，避免每次点击都重新计算
-	useEffect(() => {
-		const matrix = new THREE.Matrix4();
-
-		if (highsecNormalRef.current) {
-			systemGroups.highsec.normal.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				highsecNormalRef.current!.setMatrixAt(index, matrix);
-			});
-			highsecNormalRef.current.instanceMatrix.needsUpdate = true;
-			// 计算一次包围盒并缓存
-			highsecNormalRef.current.computeBoundingSphere();
-			highsecNormalRef.current.computeBoundingBox();
-		}
-
-		if (highsecHighlightRef.current) {
-			systemGroups.highsec.highlighted.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				highsecHighlightRef.current!.setMatrixAt(index, matrix);
-			});
-			highsecHighlightRef.current.instanceMatrix.needsUpdate = true;
-			highsecHighlightRef.current.computeBoundingSphere();
-			highsecHighlightRef.current.computeBoundingBox();
-		}
-
-		if (lowsecNormalRef.current) {
-			systemGroups.lowsec.normal.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				lowsecNormalRef.current!.setMatrixAt(index, matrix);
-			});
-			lowsecNormalRef.current.instanceMatrix.needsUpdate = true;
-			lowsecNormalRef.current.computeBoundingSphere();
-			lowsecNormalRef.current.computeBoundingBox();
-		}
-
-		if (lowsecHighlightRef.current) {
-			systemGroups.lowsec.highlighted.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				lowsecHighlightRef.current!.setMatrixAt(index, matrix);
-			});
-			lowsecHighlightRef.current.instanceMatrix.needsUpdate = true;
-			lowsecHighlightRef.current.computeBoundingSphere();
-			lowsecHighlightRef.current.computeBoundingBox();
-		}
-
-		if (nullsecNormalRef.current) {
-			systemGroups.nullsec.normal.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				nullsecNormalRef.current!.setMatrixAt(index, matrix);
-			});
-			nullsecNormalRef.current.instanceMatrix.needsUpdate = true;
-			nullsecNormalRef.current.computeBoundingSphere();
-			nullsecNormalRef.current.computeBoundingBox();
-		}
 
-		if (nullsecHighlightRef.current) {
-			systemGroups.nullsec.highlighted.forEach((system, index) => {
-				matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-				nullsecHighlightRef.current!.setMatrixAt(index, matrix);
-			});
-			nullsecHighlightRef.current.instanceMatrix.needsUpdate = true;
-			nullsecHighlightRef.current.computeBoundingSphere();
-			nullsecHighlightRef.current.computeBoundingBox();
+		mesh.instanceMatrix.needsUpdate = true;
+		if (mesh.instanceColor) {
+			mesh.instanceColor.needsUpdate = true;
 		}
-
-		customSystemGroups.forEach((items, key) => {
-			const ref = customSystemsRefs.current.get(key);
-			if (ref) {
-				items.forEach(({ system }, index) => {
-					matrix.setPosition(-system.position.x, -system.position.y, system.position.z);
-					ref.setMatrixAt(index, matrix);
-				});
-				ref.instanceMatrix.needsUpdate = true;
-				ref.computeBoundingSphere();
-				ref.computeBoundingBox();
-			}
-		});
-	}, [systemGroups, customSystemGroups]);
+		opacities.needsUpdate = true;
+		flags.needsUpdate = true;
+		// 缓存包围盒，避免每次拾取都重新计算
+		mesh.computeBoundingSphere();
+		mesh.computeBoundingBox();
+	}, [
+		mesh,
+		pickRadii,
+		systems,
+		highlightedRegionId,
+		highlightedSystemIds,
+		systemConfigMap,
+		territoryColors,
+		unclaimedColor,
+		starColors,
+		missingStarColor,
+		heatmap,
+		heatmapScale,
+		mergedSecurityColors,
+		securityPalette,
+	]);
 
 	useEffect(() => {
-		const handleClick = (event: MouseEvent) => {
+		// 拾取鼠标下方的星系：屏幕空间最近点搜索或射线检测
+		const pickSystem = (event: MouseEvent): SolarSystem | null => {
 			const rect = gl.domElement.getBoundingClientRect();
+			const flags = mesh.geometry.getAttribute('instanceFlags') as THREE.InstancedBufferAttribute;
+			const isPickable = (index: number) => (flags.getX(index) & SYSTEM_POINT_FLAG_HIDDEN) === 0;
+
+			if (pickingMode === 'screen') {
+				const index = findNearestScreenPoint(
+					camera,
+					pickPositions,
+					pickRadii,
+					{ x: event.clientX - rect.left, y: event.clientY - rect.top },
+					{ width: rect.width, height: rect.height },
+					pickTolerance,
+					isPickable,
+				);
+				return index >= 0 && index < systems.length ? systems[index] : null;
+			}
+
 			mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
 			mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
 			raycaster.setFromCamera(mouse, camera);
 
-			const meshes = [
-				{ ref: highsecNormalRef, systems: systemGroups.highsec.normal },
-				{ ref: highsecHighlightRef, systems: systemGroups.highsec.highlighted },
-				{ ref: lowsecNormalRef, systems: systemGroups.lowsec.normal },
-				{ ref: lowsecHighlightRef, systems: systemGroups.lowsec.highlighted },
-				{ ref: nullsecNormalRef, systems: systemGroups.nullsec.normal },
-				{ ref: nullsecHighlightRef, systems: systemGroups.nullsec.highlighted },
-			];
+			// 交点按距离排序，跳过被隐藏的实例
+			for (const intersect of raycaster.intersectObject(mesh)) {
+				const instanceId = intersect.instanceId;
+				if (instanceId === undefined || instanceId >= systems.length) continue;
+				if (!isPickable(instanceId)) continue;
+				return systems[instanceId];
+			}
+			return null;
+		};
 
-			customSystemGroups.forEach((items, key) => {
-				const ref = customSystemsRefs.current.get(key);
-				if (ref) {
-					meshes.push({
-						ref: { current: ref },
-						systems: items.map((item) => item.system),
-					});
-				}
-			});
+		const handleClick = (event: MouseEvent) => {
+			const system = pickSystem(event);
+			if (system) {
+				onSystemClick(system);
+				mapControl?.getConfig().events?.onSystemClick?.(system, starsBySystem?.get(system._key));
+			}
+		};
 
-			for (const { ref, systems: groupSystems } of meshes) {
-				if (ref.current) {
-					// 包围盒已在矩阵更新时计算并缓存，无需重复计算
-					const intersects = raycaster.intersectObject(ref.current);
-					if (intersects.length > 0) {
-						const instanceId = intersects[0].instanceId!;
-						if (instanceId < groupSystems.length) {
-							onSystemClick(groupSystems[instanceId]);
-							mapControl?.getConfig().events?.onSystemClick?.(groupSystems[instanceId]);
-							return;
-						}
-					}
-				}
+		const updateHoveredSystem = (system: SolarSystem | null) => {
+			const systemId = system?._key ?? null;
+			if (hoveredSystemIdRef.current === systemId) return;
+			hoveredSystemIdRef.current = systemId;
+			gl.domElement.style.cursor = system ? 'pointer' : 'auto';
+			onSystemHover?.(system);
+			mapControl?.getConfig().events?.onSystemHover?.(system);
+		};
+
+		// 悬停检测节流：每帧最多检测一次，且两次检测间隔不少于 hoverThrottleMs
+		let pendingEvent: PointerEvent | null = null;
+		let frameId: number | null = null;
+		let lastHoverTime = 0;
+		const processHover = (time: number) => {
+			frameId = null;
+			if (!pendingEvent) return;
+			if (time - lastHoverTime < hoverThrottleMs) {
+				frameId = requestAnimationFrame(processHover);
+				return;
 			}
+			lastHoverTime = time;
+			const event = pendingEvent;
+			pendingEvent = null;
+			updateHoveredSystem(pickSystem(event));
+		};
+
+		const handlePointerMove = (event: PointerEvent) => {
+			pendingEvent = event;
+			if (frameId === null) {
+				frameId = requestAnimationFrame(processHover);
+			}
+		};
+
+		const handlePointerLeave = () => {
+			pendingEvent = null;
+			updateHoveredSystem(null);
+		};
+
+		const handleContextMenu = (event: MouseEvent) => {
+			onSystemContextMenu?.(pickSystem(event));
 		};
 
 		gl.domElement.addEventListener('click', handleClick);
+		gl.domElement.addEventListener('contextmenu', handleContextMenu);
+		gl.domElement.addEventListener('pointermove', handlePointerMove);
+		gl.domElement.addEventListener('pointerleave', handlePointerLeave);
 		return () => {
 			gl.domElement.removeEventListener('click', handleClick);
+			gl.domElement.removeEventListener('contextmenu', handleContextMenu);
+			gl.domElement.removeEventListener('pointermove', handlePointerMove);
+			gl.domElement.removeEventListener('pointerleave', handlePointerLeave);
+			if (frameId !== null) {
+				cancelAnimationFrame(frameId);
+			}
 		};
-	}, [gl, camera, raycaster, mouse, systemGroups, customSystemGroups, onSystemClick, mapControl]);
+	}, [gl, camera, raycaster, mouse, mesh, systems, pickingMode, pickTolerance, pickPositions, pickRadii, onSystemClick, onSystemHover, onSystemContextMenu, hoverThrottleMs, starsBySystem, mapControl]);
 
 	return (
 		<>
-			{systemGroups.highsec.normal.length > 0 && (
-				<instancedMesh key={`highsec-normal-${systemGroups.highsec.normal.length}`} ref={highsecNormalRef} args={[normalGeometry, materials.baseMaterials.highsec, systemGroups.highsec.normal.length]} />
-			)}
-			{systemGroups.highsec.highlighted.length > 0 && (
-				<instancedMesh key={`highsec-highlighted-${systemGroups.highsec.highlighted.length}`} ref={highsecHighlightRef} args={[highlightGeometry, materials.highlightMaterials.highsec, systemGroups.highsec.highlighted.length]} />
-			)}
-			{systemGroups.lowsec.normal.length > 0 && (
-				<instancedMesh key={`lowsec-normal-${systemGroups.lowsec.normal.length}`} ref={lowsecNormalRef} args={[normalGeometry, materials.baseMaterials.lowsec, systemGroups.lowsec.normal.length]} />
-			)}
-			{systemGroups.lowsec.highlighted.length > 0 && (
-				<instancedMesh key={`lowsec-highlighted-${systemGroups.lowsec.highlighted.length}`} ref={lowsecHighlightRef} args={[highlightGeometry, materials.highlightMaterials.lowsec, systemGroups.lowsec.highlighted.length]} />
-			)}
-			{systemGroups.nullsec.normal.length > 0 && (
-				<instancedMesh key={`nullsec-normal-${systemGroups.nullsec.normal.length}`} ref={nullsecNormalRef} args={[normalGeometry, materials.baseMaterials.nullsec, systemGroups.nullsec.normal.length]} />
-			)}
-			{systemGroups.nullsec.highlighted.length > 0 && (
-				<instancedMesh key={`nullsec-highlighted-${systemGroups.nullsec.highlighted.length}`} ref={nullsecHighlightRef} args={[highlightGeometry, materials.highlightMaterials.nullsec, systemGroups.nullsec.highlighted.length]} />
-			)}
-			{Array.from(customSystemGroups.entries()).map(([key, items]) => {
-				const { material, geometry } = customMaterialsAndGeometries.get(key)!;
-				return (
-					<instancedMesh
-						key={`${key}-${items.length}`}
-						ref={(ref) => {
-							if (ref) {
-								customSystemsRefs.current.set(key, ref);
-							} else {
-								customSystemsRefs.current.delete(key);
-							}
-						}}
-						args={[geometry, material, items.length]}
-					/>
-				);
-			})}
-		{jumpDriveHighlight && jumpDriveHighlight.systems.length > 0 && (
+			{instanceCount > 0 && <primitive object={mesh} />}
+		{jumpDriveHighlights?.map((highlight, index) => (
 			<JumpDriveReachableRings
-				systems={jumpDriveHighlight.systems.filter((system) => system._key !== jumpDriveConfig?.originSystemId)}
-				color={jumpDriveHighlight.color}
-				opacity={jumpDriveHighlight.opacity}
-				scale={jumpDriveHighlight.scale}
+				key={index}
+				systems={highlight.systems}
+				color={highlight.color}
+				opacity={highlight.opacity}
+				scale={highlight.scale}
 			/>
-		)}
+		))}
 		</>
 	);
 }
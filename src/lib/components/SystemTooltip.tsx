@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import type { Constellation, Language, LocaleStrings, Region, SolarSystem, TooltipConfig } from '../types';
+import { getLocalizedName } from '../i18n';
+
+// 提示框与光标之间的偏移
+const CURSOR_OFFSET = 14;
+
+/**
+ * 星系悬停提示框（DOM 覆盖层）
+ * 自行监听容器的 pointermove 更新位置，避免光标移动时重渲染整个场景
+ */
+export function SystemTooltip({
+  system,
+  regions,
+  constellations,
+  language,
+  strings,
+  config,
+  containerRef,
+}: {
+  system: SolarSystem | null;
+  regions?: Region[];
+  constellations?: Constellation[];
+  language: Language;
+  strings: LocaleStrings;
+  config?: TooltipConfig;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+}) {
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      setPosition({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+    };
+
+    container.addEventListener('pointermove', handlePointerMove);
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+    };
+  }, [containerRef]);
+
+  if (!system || !position) {
+    return null;
+  }
+
+  const region = regions?.find((r) => r._key === system.regionID);
+  const constellation = constellations?.find((c) => c._key === system.constellationID);
+  let content: React.ReactNode;
+
+  if (config?.render) {
+    content = config.render({ system, region, constellation, language });
+  } else {
+    const systemName = getLocalizedName(system.name, language);
+    const regionName = region ? getLocalizedName(region.name, language) : undefined;
+    const constellationName = constellation ? getLocalizedName(constellation.name, language) : undefined;
+    const rows: Array<{ label: string; value: React.ReactNode }> = [
+      {
+        label: strings.security,
+        value: Number.isFinite(system.securityStatus) ? system.securityStatus.toFixed(1) : '-',
+      },
+      { label: strings.region, value: regionName ?? system.regionID },
+      { label: strings.constellation, value: constellationName ?? system.constellationID },
+      ...(config?.fields?.(system) ?? []),
+    ];
+
+    content = (
+      <>
+        <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>{systemName}</div>
+        {rows.map((row, index) => (
+          <div key={index} style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#999' }}>{row.label}</span>
+            <span>{row.value}</span>
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: position.x + CURSOR_OFFSET,
+        top: position.y + CURSOR_OFFSET,
+        background: 'rgba(30, 30, 30, 0.95)',
+        border: '1px solid #444',
+        borderRadius: '4px',
+        padding: '6px 10px',
+        color: '#fff',
+        fontSize: '12px',
+        whiteSpace: 'nowrap',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.5)',
+        pointerEvents: 'none',
+        userSelect: 'none',
+        zIndex: 900,
+      }}
+    >
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { ConvexGeometry } from 'three/examples/jsm/geometries/ConvexGeometry.js';
+import type { SolarSystem } from '../types';
+
+/**
+ * 领地星域外壳：星域内过半星系属于同一归属时，以该归属颜色绘制星域星系的半透明凸包
+ */
+export function TerritoryHulls({
+	systemsByRegion,
+	owners,
+	ownerColors,
+	opacity = 0.08,
+}: {
+	systemsByRegion: Map<number, SolarSystem[]>;
+	owners: Map<number, number | string>;
+	ownerColors: Map<number | string, string>;
+	opacity?: number;
+}) {
+	const hulls = useMemo(() => {
+		const results: Array<{ regionId: number; geometry: THREE.BufferGeometry; color: string }> = [];
+
+		systemsByRegion.forEach((regionSystems, regionId) => {
+			// 凸包至少需要 4 个不共面的点
+			if (regionSystems.length < 4) return;
+
+			const counts = new Map<number | string, number>();
+			regionSystems.forEach((system) => {
+				const ownerId = owners.get(system._key);
+				if (ownerId !== undefined) {
+					counts.set(ownerId, (counts.get(ownerId) ?? 0) + 1);
+				}
+			});
+
+			let dominantOwner: number | string | null = null;
+			let dominantCount = 0;
+			for (const [ownerId, count] of counts) {
+				if (count > dominantCount) {
+					dominantOwner = ownerId;
+					dominantCount = count;
+				}
+			}
+			if (dominantOwner === null || dominantCount * 2 <= regionSystems.length) return;
+
+			const color = ownerColors.get(dominantOwner);
+			if (!color) return;
+
+			const points = regionSystems.map((system) => new THREE.Vector3(-system.position.x, -system.position.y, system.position.z));
+			try {
+				results.push({ regionId, geometry: new ConvexGeometry(points), color });
+			} catch {
+				// 星系共面等退化情况无法生成凸包，跳过该星域
+			}
+		});
+
+		return results;
+	}, [systemsByRegion, owners, ownerColors]);
+
+	useEffect(() => {
+		return () => {
+			hulls.forEach((hull) => {
+				hull.geometry.dispose();
+			});
+		};
+	}, [hulls]);
+
+	const surfaceOpacity = Math.min(Math.max(opacity, 0), 1);
+
+	return (
+		<>
+			{hulls.map((hull) => (
+				<mesh key={hull.regionId} geometry={hull.geometry} raycast={() => null} renderOrder={-1}>
+					<meshBasicMaterial
+						color={hull.color}
+						transparent
+						opacity={surfaceOpacity}
+						side={THREE.DoubleSide}
+						depthWrite={false}
+						blending={THREE.AdditiveBlending}
+					/>
+				</mesh>
+			))}
+		</>
+	);
+}
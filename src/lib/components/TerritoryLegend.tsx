@@ -0,0 +1,85 @@
+import type { ColorMode, LocaleStrings } from '../types';
+import type { TerritoryOwnerEntry } from './utils/resolveTerritoryColors';
+
+// wormholeClass 为虫洞空间视图的等级着色
+type LegendMode = Exclude<ColorMode, 'security'> | 'wormholeClass';
+
+const LEGEND_TITLE_KEYS: Record<LegendMode, keyof LocaleStrings> = {
+  sovereignty: 'sovereignty',
+  faction: 'factions',
+  custom: 'legend',
+  star: 'spectralClass',
+  wormholeClass: 'wormholeClass',
+};
+
+/**
+ * 领地着色图例（DOM 覆盖层），按拥有星系数从多到少列出归属；恒星着色时列出各光谱型，
+ * 虫洞空间视图中列出各虫洞等级
+ */
+export function TerritoryLegend({
+  colorMode,
+  owners,
+  strings,
+  title,
+  maxItems = 12,
+  unclaimedColor,
+}: {
+  colorMode: LegendMode;
+  owners: TerritoryOwnerEntry[];
+  strings: LocaleStrings;
+  title?: string;
+  maxItems?: number;
+  unclaimedColor?: string;
+}) {
+  const visibleOwners = owners.slice(0, Math.max(maxItems, 0));
+  const otherCount = owners.slice(visibleOwners.length).reduce((total, owner) => total + owner.systemCount, 0);
+
+  const rows = visibleOwners.map((owner) => ({
+    key: String(owner.ownerId),
+    label: owner.name,
+    color: owner.color,
+    count: owner.systemCount as number | undefined,
+  }));
+  if (otherCount > 0) {
+    rows.push({ key: '__other', label: strings.other, color: 'transparent', count: otherCount });
+  }
+  if (unclaimedColor) {
+    rows.push({ key: '__unclaimed', label: strings.unclaimed, color: unclaimedColor, count: undefined });
+  }
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(30, 30, 30, 0.85)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '6px',
+        padding: '8px 12px',
+        color: 'rgba(255, 255, 255, 0.9)',
+        fontSize: '12px',
+        maxHeight: '320px',
+        overflowY: 'auto',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>
+        {title ?? strings[LEGEND_TITLE_KEYS[colorMode]]}
+      </div>
+      {rows.map((row) => (
+        <div key={row.key} style={{ display: 'flex', alignItems: 'center', gap: '8px', lineHeight: '20px' }}>
+          <span
+            style={{
+              width: '10px',
+              height: '10px',
+              borderRadius: '50%',
+              backgroundColor: row.color,
+              border: row.color === 'transparent' ? '1px dashed rgba(255, 255, 255, 0.5)' : 'none',
+              flexShrink: 0,
+            }}
+          />
+          <span style={{ flex: 1, whiteSpace: 'nowrap' }}>{row.label}</span>
+          {row.count !== undefined && <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>{row.count}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import type { JSpaceClassGroup } from './utils/layoutJSpace';
+
+function WormholeClassLabel({ group, fontSize }: { group: JSpaceClassGroup; fontSize: number }) {
+	const textRef = useRef<THREE.Mesh>(null);
+	const { camera } = useThree();
+	const { x, y, z } = group.labelPosition;
+
+	useFrame(() => {
+		if (!textRef.current) return;
+		// 面向摄像机，按距离缩放保持屏幕大小；标签底部对齐分组上边缘
+		textRef.current.quaternion.copy(camera.quaternion);
+		textRef.current.scale.setScalar(camera.position.distanceTo(textRef.current.position) / 1.5e17);
+	});
+
+	return (
+		<Text
+			ref={textRef}
+			position={[-x, -y, z]}
+			fontSize={fontSize}
+			color={group.color}
+			anchorX="center"
+			anchorY="bottom"
+			outlineWidth={0.1}
+			outlineColor="#000"
+		>
+			{`${group.name} (${group.systemCount})`}
+		</Text>
+	);
+}
+
+/**
+ * 虫洞空间视图中各等级分组上方的标签
+ */
+export function WormholeClassLabels({ groups, style }: { groups: JSpaceClassGroup[]; style?: { labelFontSize?: number } }) {
+	const fontSize = (style?.labelFontSize || 2e15) * 2;
+	return (
+		<>
+			{groups.map((group) => (
+				<WormholeClassLabel key={group.ownerId} group={group} fontSize={fontSize} />
+			))}
+		</>
+	);
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { JSpaceConfig, SolarSystem, WormholeConnection, WormholeMassStatus } from '../types';
+import { DEFAULT_WORMHOLE_END_OF_LIFE_THRESHOLD, DEFAULT_WORMHOLE_MASS_COLORS, SYSTEM_POINT_SIZE } from './constants';
+import { createArcSegments } from './utils/createArcSegments';
+
+// 剩余时间与即将到期状态的刷新间隔（毫秒）
+const REFRESH_INTERVAL = 30 * 1000;
+
+const MASS_STATUSES: WormholeMassStatus[] = ['stable', 'reduced', 'critical'];
+
+/**
+ * 剩余时间格式化为 "3h 12m" / "45m"
+ */
+function formatRemaining(ms: number): string {
+	const totalMinutes = Math.max(Math.floor(ms / 60000), 0);
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * 虫洞连接图层：按质量状态着色的弧线，即将到期的连接显示为虚线，
+ * 中点标注虫洞类型与剩余时间；已到期的连接不再绘制
+ */
+export function WormholeConnections({
+	connections,
+	systems,
+	highlightedSystemIds,
+	config,
+}: {
+	connections: WormholeConnection[];
+	systems: SolarSystem[];
+	highlightedSystemIds: Set<number>;
+	config?: JSpaceConfig;
+}) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+		return () => clearInterval(timer);
+	}, []);
+
+	const massColors = config?.massColors;
+	const endOfLifeThreshold = config?.endOfLifeThreshold ?? DEFAULT_WORMHOLE_END_OF_LIFE_THRESHOLD;
+	const showLabels = config?.showConnectionLabels !== false;
+
+	// 每种质量状态一组实线 / 虚线材质
+	const materials = useMemo(() => {
+		const entries = MASS_STATUSES.map((status) => {
+			const color = massColors?.[status] ?? DEFAULT_WORMHOLE_MASS_COLORS[status];
+			return [
+				status,
+				{
+					color,
+					solid: new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.9 }),
+					dashed: new THREE.LineDashedMaterial({
+						color,
+						transparent: true,
+						opacity: 0.9,
+						dashSize: SYSTEM_POINT_SIZE * 6,
+						gapSize: SYSTEM_POINT_SIZE * 4,
+					}),
+				},
+			] as const;
+		});
+		return new Map(entries);
+	}, [massColors]);
+
+	useEffect(() => {
+		return () => {
+			materials.forEach(({ solid, dashed }) => {
+				solid.dispose();
+				dashed.dispose();
+			});
+		};
+	}, [materials]);
+
+	const arcs = useMemo(() => {
+		const systemMap = new Map(systems.map((system) => [system._key, system]));
+		return connections.flatMap((connection, index) => {
+			const from = systemMap.get(connection.fromSystemId);
+			const to = systemMap.get(connection.toSystemId);
+			if (!from || !to || from._key === to._key) return [];
+
+			const fromPosition = new THREE.Vector3(-from.position.x, -from.position.y, from.position.z);
+			const toPosition = new THREE.Vector3(-to.position.x, -to.position.y, to.position.z);
+			const { segmentPositions, apex } = createArcSegments(fromPosition, toPosition, 0.15, 48);
+			const geometry = new THREE.BufferGeometry();
+			geometry.setAttribute('position', new THREE.BufferAttribute(segmentPositions, 3));
+			const line = new THREE.LineSegments(geometry);
+			// 虚线材质需要逐顶点距离
+			line.computeLineDistances();
+			line.raycast = () => null;
+
+			return [{ key: `${index}-${from._key}-${to._key}`, connection, line, apex }];
+		});
+	}, [connections, systems]);
+
+	useEffect(() => {
+		return () => {
+			arcs.forEach(({ line }) => {
+				line.geometry.dispose();
+			});
+		};
+	}, [arcs]);
+
+	return (
+		<>
+			{arcs.map(({ key, connection, line, apex }) => {
+				const remaining = connection.expiresAt !== undefined ? connection.expiresAt - now : undefined;
+				if (remaining !== undefined && remaining <= 0) return null;
+
+				const endOfLife = remaining !== undefined && remaining < endOfLifeThreshold;
+				const { color, solid, dashed } = materials.get(connection.massStatus ?? 'stable') ?? materials.get('stable')!;
+				const highlighted = highlightedSystemIds.has(connection.fromSystemId) || highlightedSystemIds.has(connection.toSystemId);
+				const label = [connection.type, remaining !== undefined ? formatRemaining(remaining) : undefined].filter(Boolean).join(' · ');
+
+				return (
+					<group key={key}>
+						<primitive object={line} material={endOfLife ? dashed : solid} />
+						{showLabels && label && (
+							<Html position={[apex.x, apex.y, apex.z]} center zIndexRange={[80, 0]}>
+								<div
+									style={{
+										padding: '1px 5px',
+										borderRadius: '4px',
+										background: 'rgba(0, 0, 0, 0.7)',
+										border: `1px ${endOfLife ? 'dashed' : 'solid'} ${color}`,
+										color,
+										fontSize: '11px',
+										fontFamily: 'monospace',
+										fontWeight: highlighted ? 'bold' : 'normal',
+										whiteSpace: 'nowrap',
+										pointerEvents: 'none',
+										userSelect: 'none',
+									}}
+								>
+									{label}
+								</div>
+							</Html>
+						)}
+					</group>
+				);
+			})}
+		</>
+	);
+}
@@ -1,4 +1,4 @@
-import type { SecurityColorConfig } from '../types';
+import type { MapKeyAction, SecurityColorConfig, SpectralType, WormholeMassStatus } from '../types';
 
 export const DEFAULT_SECURITY_COLORS: Required<SecurityColorConfig> = {
 	highsec: '#4CAF50',
@@ -12,5 +12,138 @@ export const DEFAULT_HIGHLIGHT_COLORS: Required<SecurityColorConfig> = {
 	nullsec: '#FF6666',
 };
 
+// 高安判定阈值：安全等级 >= 0.45 为高安，跳跃引擎无法跳入
+export const HIGHSEC_SECURITY_THRESHOLD = 0.45;
+
 export const JUMP_DRIVE_LIGHTYEAR_IN_METERS = 9_460_000_000_000_000;
 export const SYSTEM_POINT_SIZE = 8e14;
+
+// 默认键盘快捷键
+export const DEFAULT_KEY_BINDINGS: Record<MapKeyAction, string[]> = {
+	panForward: ['w', 'ArrowUp'],
+	panBackward: ['s', 'ArrowDown'],
+	panLeft: ['a', 'ArrowLeft'],
+	panRight: ['d', 'ArrowRight'],
+	zoomIn: ['+', '='],
+	zoomOut: ['-', '_'],
+	deselect: ['Escape'],
+	nextSystem: ['Tab'],
+	previousSystem: ['Shift+Tab'],
+	focus: ['Enter'],
+	resetCamera: ['r', 'Home'],
+};
+
+// 热力图默认颜色渐变（低 -> 高）
+export const DEFAULT_HEATMAP_COLOR_RAMP = ['#2c7bb6', '#00ccbc', '#ffff8c', '#f29e2e', '#d7191c'];
+
+// 领地着色默认调色板（按拥有星系数从多到少依次分配）
+export const DEFAULT_TERRITORY_PALETTE = [
+	'#e6194b',
+	'#3cb44b',
+	'#4363d8',
+	'#f58231',
+	'#911eb4',
+	'#46f0f0',
+	'#f032e6',
+	'#bcf60c',
+	'#fabebe',
+	'#008080',
+	'#e6beff',
+	'#9a6324',
+	'#fffac8',
+	'#800000',
+	'#aaffc3',
+	'#808000',
+];
+
+// faction 模式下四大帝国的默认颜色与名称（键为 factionID）
+export const DEFAULT_FACTIONS: Record<string, { color: string; name: { zh: string; en: string } }> = {
+	500001: { color: '#4f8fd6', name: { zh: '加达里合众国', en: 'Caldari State' } },
+	500002: { color: '#c0392b', name: { zh: '米玛塔尔共和国', en: 'Minmatar Republic' } },
+	500003: { color: '#d4af37', name: { zh: '艾玛帝国', en: 'Amarr Empire' } },
+	500004: { color: '#2e8b57', name: { zh: '盖伦特联邦', en: 'Gallente Federation' } },
+};
+
+// 情报默认有效期（毫秒）、预警跳数与标记颜色
+export const DEFAULT_INTEL_TTL = 5 * 60 * 1000;
+export const DEFAULT_INTEL_ALERT_JUMPS = 5;
+export const DEFAULT_INTEL_COLOR = '#ff3b30';
+
+// 角色标记默认颜色、移动动画时长（毫秒/跳）与叠放数量
+export const DEFAULT_PILOT_COLOR = '#4fc3f7';
+export const DEFAULT_PILOT_MOVE_DURATION = 1200;
+export const DEFAULT_PILOT_MAX_STACKED = 4;
+
+// 恒星着色：各光谱型的代表温度（K）与默认颜色，温度介于两者之间时插值
+export const SPECTRAL_TYPE_TEMPERATURES: Record<SpectralType, number> = {
+	O: 30000,
+	B: 15000,
+	A: 8500,
+	F: 6700,
+	G: 5700,
+	K: 4500,
+	M: 3000,
+};
+export const DEFAULT_STAR_COLORS: Record<SpectralType, string> = {
+	O: '#7b9bff',
+	B: '#a4bdff',
+	A: '#e0e8ff',
+	F: '#fff6d6',
+	G: '#ffe066',
+	K: '#ffa64d',
+	M: '#ff5c3b',
+};
+export const DEFAULT_STAR_SIZE_RANGE: [number, number] = [0.6, 2];
+
+// 虫洞等级（wormholeClassID）的显示名称与默认颜色，新伊甸星系按安全等级归入 7 / 8 / 9
+export const WORMHOLE_CLASS_NAMES: Record<number, string> = {
+	1: 'C1',
+	2: 'C2',
+	3: 'C3',
+	4: 'C4',
+	5: 'C5',
+	6: 'C6',
+	7: 'HS',
+	8: 'LS',
+	9: 'NS',
+	12: 'Thera',
+	13: 'C13',
+	14: 'Sentinel',
+	15: 'Barbican',
+	16: 'Vidette',
+	17: 'Conflux',
+	18: 'Redoubt',
+	25: 'Pochven',
+};
+export const DEFAULT_WORMHOLE_CLASS_COLORS: Record<number, string> = {
+	1: '#4fc3f7',
+	2: '#4db6ac',
+	3: '#81c784',
+	4: '#dce775',
+	5: '#ffb74d',
+	6: '#e57373',
+	7: DEFAULT_SECURITY_COLORS.highsec,
+	8: DEFAULT_SECURITY_COLORS.lowsec,
+	9: DEFAULT_SECURITY_COLORS.nullsec,
+	12: '#ba68c8',
+	13: '#90a4ae',
+	14: '#9575cd',
+	15: '#9575cd',
+	16: '#9575cd',
+	17: '#9575cd',
+	18: '#9575cd',
+	25: '#c62828',
+};
+// 等级未知的星系颜色
+export const DEFAULT_WORMHOLE_UNKNOWN_COLOR = '#9e9e9e';
+// 虫洞空间视图中的分组顺序：虫洞等级在前，新伊甸星系在后，其余等级按 ID 排在最后
+export const WORMHOLE_CLASS_ORDER = [1, 2, 3, 4, 5, 6, 13, 12, 14, 15, 16, 17, 18, 25, 7, 8, 9];
+
+// 虫洞空间视图默认星系间距（米）、连线颜色与即将到期阈值（毫秒）
+export const DEFAULT_JSPACE_SYSTEM_SPACING = 5e15;
+export const DEFAULT_WORMHOLE_MASS_COLORS: Record<WormholeMassStatus, string> = {
+	stable: '#4fc3f7',
+	reduced: '#ffb74d',
+	critical: '#ef5350',
+};
+export const DEFAULT_WORMHOLE_END_OF_LIFE_THRESHOLD = 4 * 60 * 60 * 1000;
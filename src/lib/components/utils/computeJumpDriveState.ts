@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import type { JumpDriveConfig, SolarSystem } from '../../types';
+import { HIGHSEC_SECURITY_THRESHOLD, JUMP_DRIVE_LIGHTYEAR_IN_METERS } from '../constants';
+
+export interface JumpDriveState {
+	origin: THREE.Vector3;
+	rangeMeters: number;
+	reachableSystems: SolarSystem[];
+	originSystemId: number | null;
+}
+
+/**
+ * 将单个或多个跳跃引擎配置统一为数组
+ */
+export function normalizeJumpDriveConfigs(config?: JumpDriveConfig | JumpDriveConfig[]): JumpDriveConfig[] {
+	if (!config) return [];
+	return Array.isArray(config) ? config : [config];
+}
+
+/**
+ * 计算单个跳跃引擎配置的起点、半径以及可达星系
+ *
+ * @param jumpDriveConfig 跳跃引擎配置
+ * @param systems 参与计算的星系（已过滤）
+ * @param systemMap 用于查找起点的星系映射
+ * @returns 配置无效或找不到起点时返回 null
+ */
+export function computeJumpDriveState(
+	jumpDriveConfig: JumpDriveConfig,
+	systems: SolarSystem[],
+	systemMap: Map<number, SolarSystem>,
+): JumpDriveState | null {
+	const rangeLightYears = jumpDriveConfig.rangeLightYears;
+	if (!Number.isFinite(rangeLightYears) || rangeLightYears <= 0) {
+		return null;
+	}
+	let originVector: THREE.Vector3 | null = null;
+	let originSystemId: number | null = null;
+	if (jumpDriveConfig.originSystemId !== undefined) {
+		const originSystem = systemMap.get(jumpDriveConfig.originSystemId);
+		if (originSystem) {
+			originVector = new THREE.Vector3(-originSystem.position.x, -originSystem.position.y, originSystem.position.z);
+			originSystemId = originSystem._key;
+		}
+	}
+	if (!originVector && jumpDriveConfig.originPosition) {
+		const { x, y, z } = jumpDriveConfig.originPosition;
+		if ([x, y, z].every((value) => Number.isFinite(value))) {
+			originVector = new THREE.Vector3(x, y, z);
+		}
+	}
+	if (!originVector) {
+		return null;
+	}
+	const rangeMeters = rangeLightYears * JUMP_DRIVE_LIGHTYEAR_IN_METERS;
+	if (!Number.isFinite(rangeMeters) || rangeMeters <= 0) {
+		return null;
+	}
+	const rangeSquared = rangeMeters * rangeMeters;
+	const reachableSystems = systems.filter((system) => {
+		if (!Number.isFinite(system.securityStatus) || system.securityStatus >= HIGHSEC_SECURITY_THRESHOLD) {
+			return false;
+		}
+		const dx = -system.position.x - originVector!.x;
+		const dy = -system.position.y - originVector!.y;
+		const dz = system.position.z - originVector!.z;
+		return dx * dx + dy * dy + dz * dz <= rangeSquared;
+	});
+	return {
+		origin: originVector,
+		rangeMeters,
+		reachableSystems,
+		originSystemId,
+	};
+}
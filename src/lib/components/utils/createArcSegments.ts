@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+
+/**
+ * 生成两点之间的弧线（正弦轮廓），输出可直接用于 lineSegments 的顶点数组
+ *
+ * @param fromPosition 起点（场景坐标）
+ * @param toPosition 终点（场景坐标）
+ * @param curveHeightScale 弧高与两点距离的比例
+ * @param curveSegments 弧线分段数
+ * @returns 线段顶点数组以及弧线顶点位置
+ */
+export function createArcSegments(
+	fromPosition: THREE.Vector3,
+	toPosition: THREE.Vector3,
+	curveHeightScale: number,
+	curveSegments: number,
+): { segmentPositions: Float32Array; apex: THREE.Vector3 } {
+	const forwardVector = toPosition.clone().sub(fromPosition);
+	const distance = forwardVector.length();
+
+	const forwardDirection = distance > 0 ? forwardVector.clone().normalize() : new THREE.Vector3(1, 0, 0);
+	const globalUp = new THREE.Vector3(0, 1, 0);
+
+	let planeNormal = forwardDirection.clone().cross(globalUp);
+	if (planeNormal.lengthSq() === 0) {
+		planeNormal = forwardDirection.clone().cross(new THREE.Vector3(1, 0, 0));
+	}
+	planeNormal.normalize();
+
+	const curveUp = planeNormal.clone().cross(forwardDirection).normalize();
+	const curveHeight = distance > 0 ? Math.max(distance * curveHeightScale, 1e15) : 1e15;
+	const positions = new Float32Array((curveSegments + 1) * 3);
+
+	for (let segment = 0; segment <= curveSegments; segment += 1) {
+		const t = segment / curveSegments;
+		const basePoint = fromPosition.clone().addScaledVector(forwardDirection, distance * t);
+		const offset = Math.sin(Math.PI * t) * curveHeight;
+		basePoint.addScaledVector(curveUp, offset);
+
+		const index = segment * 3;
+		positions[index] = basePoint.x;
+		positions[index + 1] = basePoint.y;
+		positions[index + 2] = basePoint.z;
+	}
+
+	const segmentPositions = new Float32Array(curveSegments * 2 * 3);
+	for (let segment = 0; segment < curveSegments; segment += 1) {
+		const startIndex = segment * 3;
+		const endIndex = (segment + 1) * 3;
+		const destIndex = segment * 6;
+
+		segmentPositions[destIndex] = positions[startIndex];
+		segmentPositions[destIndex + 1] = positions[startIndex + 1];
+		segmentPositions[destIndex + 2] = positions[startIndex + 2];
+		segmentPositions[destIndex + 3] = positions[endIndex];
+		segmentPositions[destIndex + 4] = positions[endIndex + 1];
+		segmentPositions[destIndex + 5] = positions[endIndex + 2];
+	}
+
+	const apex = fromPosition.clone().addScaledVector(forwardDirection, distance / 2).addScaledVector(curveUp, curveHeight);
+
+	return { segmentPositions, apex };
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import type { HeatmapConfig } from '../../types';
+import { DEFAULT_HEATMAP_COLOR_RAMP } from '../constants';
+
+export interface HeatmapScale {
+	min: number;
+	max: number;
+	colorRamp: string[];
+	/** 将指标值映射到 0..1 */
+	normalize: (value: number) => number;
+	/** 按归一化位置插值颜色，结果写入 target */
+	colorAt: (t: number, target: THREE.Color) => THREE.Color;
+	/** 按归一化位置插值大小倍数 */
+	sizeAt: (t: number) => number;
+}
+
+/**
+ * 根据热力图配置生成数值 -> 颜色 / 大小的映射
+ *
+ * @returns 配置未启用或没有有效数值时返回 null
+ */
+export function createHeatmapScale(heatmap?: HeatmapConfig): HeatmapScale | null {
+	if (!heatmap || heatmap.enabled === false || !heatmap.values) {
+		return null;
+	}
+
+	const values = Object.values(heatmap.values).filter((value) => Number.isFinite(value));
+	if (values.length === 0) {
+		return null;
+	}
+
+	let min = heatmap.min ?? Infinity;
+	let max = heatmap.max ?? -Infinity;
+	if (heatmap.min === undefined || heatmap.max === undefined) {
+		for (const value of values) {
+			if (heatmap.min === undefined && value < min) min = value;
+			if (heatmap.max === undefined && value > max) max = value;
+		}
+	}
+
+	const span = max - min;
+	const useLog = heatmap.scale === 'log';
+	const normalize = (value: number) => {
+		if (!(span > 0)) return value >= max ? 1 : 0;
+		const offset = Math.min(Math.max(value - min, 0), span);
+		const t = useLog ? Math.log1p(offset) / Math.log1p(span) : offset / span;
+		return Math.min(Math.max(t, 0), 1);
+	};
+
+	const colorRamp = heatmap.colorRamp && heatmap.colorRamp.length > 0 ? heatmap.colorRamp : DEFAULT_HEATMAP_COLOR_RAMP;
+	const rampColors = colorRamp.map((color) => new THREE.Color(color));
+	const colorAt = (t: number, target: THREE.Color) => {
+		if (rampColors.length === 1) {
+			return target.copy(rampColors[0]);
+		}
+		const position = t * (rampColors.length - 1);
+		const index = Math.min(Math.floor(position), rampColors.length - 2);
+		return target.copy(rampColors[index]).lerp(rampColors[index + 1], position - index);
+	};
+
+	const [minSize, maxSize] = heatmap.sizeRange ?? [1, 2.5];
+	const sizeAt = (t: number) => Math.max(minSize + (maxSize - minSize) * t, 0);
+
+	return { min, max, colorRamp, normalize, colorAt, sizeAt };
+}
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+
+/** 实例标志位：隐藏（不绘制、不参与拾取） */
+export const SYSTEM_POINT_FLAG_HIDDEN = 1;
+
+/**
+ * 创建星系点使用的材质：在 MeshBasicMaterial 基础上读取逐实例的透明度（instanceOpacity）
+ * 和标志位（instanceFlags），颜色由 instanceColor 提供，大小写入实例矩阵
+ */
+export function createSystemPointsMaterial(): THREE.MeshBasicMaterial {
+	const material = new THREE.MeshBasicMaterial({
+		color: '#ffffff',
+		transparent: true,
+		opacity: 1,
+		blending: THREE.AdditiveBlending,
+		depthWrite: false,
+	});
+
+	material.onBeforeCompile = (shader) => {
+		shader.vertexShader = shader.vertexShader
+			.replace(
+				'#include <common>',
+				'#include <common>\nattribute float instanceOpacity;\nattribute float instanceFlags;\nvarying float vInstanceOpacity;',
+			)
+			.replace(
+				'#include <begin_vertex>',
+				[
+					'#include <begin_vertex>',
+					'vInstanceOpacity = instanceOpacity;',
+					`if ((int(instanceFlags + 0.5) & ${SYSTEM_POINT_FLAG_HIDDEN}) != 0) {`,
+					'\ttransformed = vec3(0.0);',
+					'\tvInstanceOpacity = 0.0;',
+					'}',
+				].join('\n'),
+			);
+		shader.fragmentShader = shader.fragmentShader
+			.replace('#include <common>', '#include <common>\nvarying float vInstanceOpacity;')
+			.replace('#include <color_fragment>', '#include <color_fragment>\ndiffuseColor.a *= vInstanceOpacity;');
+	};
+	material.customProgramCacheKey = () => 'eve-map-system-points';
+
+	return material;
+}
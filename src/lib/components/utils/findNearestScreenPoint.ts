@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+
+const projected = new THREE.Vector3();
+const viewPosition = new THREE.Vector3();
+
+/**
+ * 屏幕空间最近点拾取：将所有点投影到屏幕，返回距指针最近且在容差范围内的点索引
+ *
+ * 点在屏幕上的半径按相机投影计算，指针落在点内部或距其边缘不超过 tolerance 像素即视为命中；
+ * 多个点同时命中时取距边缘最近者，距离相同时取离相机更近者
+ *
+ * @param positions 点的世界坐标（xyz 交错排列）
+ * @param radii 点的世界半径
+ * @param pointer 指针相对画布左上角的像素坐标
+ * @param viewport 画布的像素尺寸
+ * @param tolerance 像素容差
+ * @param isPickable 可选过滤函数，返回 false 的点不参与拾取
+ * @returns 命中点的索引，未命中返回 -1
+ */
+export function findNearestScreenPoint(
+	camera: THREE.Camera,
+	positions: Float32Array,
+	radii: Float32Array,
+	pointer: { x: number; y: number },
+	viewport: { width: number; height: number },
+	tolerance: number,
+	isPickable?: (index: number) => boolean,
+): number {
+	const halfWidth = viewport.width / 2;
+	const halfHeight = viewport.height / 2;
+	// 透视相机下世界单位到像素的换算系数（需再除以视距）
+	const perspectiveFactor =
+		camera instanceof THREE.PerspectiveCamera ? halfHeight / Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) : 0;
+
+	let bestIndex = -1;
+	let bestDistance = Infinity;
+	let bestDepth = Infinity;
+	const count = Math.min(positions.length / 3, radii.length);
+
+	for (let index = 0; index < count; index++) {
+		if (isPickable && !isPickable(index)) continue;
+
+		viewPosition.set(positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]);
+		projected.copy(viewPosition).project(camera);
+		// 位于相机后方或裁剪范围外
+		if (projected.z < -1 || projected.z > 1) continue;
+
+		const screenX = (projected.x + 1) * halfWidth;
+		const screenY = (1 - projected.y) * halfHeight;
+		const dx = screenX - pointer.x;
+		const dy = screenY - pointer.y;
+
+		const depth = viewPosition.applyMatrix4(camera.matrixWorldInverse).z * -1;
+		const screenRadius = perspectiveFactor > 0 && depth > 0 ? (radii[index] * perspectiveFactor) / depth : 0;
+		const edgeDistance = Math.max(Math.sqrt(dx * dx + dy * dy) - screenRadius, 0);
+		if (edgeDistance > tolerance) continue;
+
+		if (edgeDistance < bestDistance || (edgeDistance === bestDistance && depth < bestDepth)) {
+			bestIndex = index;
+			bestDistance = edgeDistance;
+			bestDepth = depth;
+		}
+	}
+
+	return bestIndex;
+}
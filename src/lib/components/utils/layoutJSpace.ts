@@ -0,0 +1,177 @@
+import type { Constellation, JSpaceConfig, MapViewMode, Region, SolarSystem, WormholeConnection } from '../../types';
+import { isWormholeSystem } from '../../utils';
+import {
+	DEFAULT_JSPACE_SYSTEM_SPACING,
+	DEFAULT_WORMHOLE_CLASS_COLORS,
+	DEFAULT_WORMHOLE_UNKNOWN_COLOR,
+	HIGHSEC_SECURITY_THRESHOLD,
+	WORMHOLE_CLASS_NAMES,
+	WORMHOLE_CLASS_ORDER,
+} from '../constants';
+import type { TerritoryOwnerEntry } from './resolveTerritoryColors';
+
+// 等级未知的虫洞星系的分组ID
+const UNKNOWN_CLASS_ID = 0;
+
+export interface JSpaceClassGroup extends TerritoryOwnerEntry {
+	/** 虫洞等级（未知时为 0） */
+	ownerId: number;
+	/** 等级标签位置（分组上边缘中点，SDE 坐标） */
+	labelPosition: { x: number; y: number; z: number };
+}
+
+export interface JSpaceLayout {
+	/** 按布局坐标重新定位的星系 */
+	systems: SolarSystem[];
+	/** 星系ID -> 等级颜色 */
+	systemColors: Map<number, string>;
+	/** 按分组顺序排列的等级，也用作图例条目 */
+	groups: JSpaceClassGroup[];
+}
+
+/**
+ * 取星系的虫洞等级：虫洞星系依次取星系、星座、星域的 wormholeClassID，
+ * 其他星系取自身的 wormholeClassID，缺失时按安全等级归入 7（高安）/ 8（低安）/ 9（00）
+ */
+export function getWormholeClassId(
+	system: SolarSystem,
+	constellationMap: Map<number, Constellation>,
+	regionMap: Map<number, Region>,
+): number {
+	if (system.wormholeClassID !== undefined) {
+		return system.wormholeClassID;
+	}
+	if (isWormholeSystem(system._key)) {
+		return (
+			constellationMap.get(system.constellationID)?.wormholeClassID ??
+			regionMap.get(system.regionID)?.wormholeClassID ??
+			UNKNOWN_CLASS_ID
+		);
+	}
+	return system.securityStatus >= HIGHSEC_SECURITY_THRESHOLD ? 7 : system.securityStatus >= 0 ? 8 : 9;
+}
+
+function getClassRank(classId: number): number {
+	const index = WORMHOLE_CLASS_ORDER.indexOf(classId);
+	if (index >= 0) return index;
+	return classId === UNKNOWN_CLASS_ID ? Infinity : WORMHOLE_CLASS_ORDER.length + classId;
+}
+
+/**
+ * 虫洞空间视图布局：虫洞星系在 SDE 中没有星门，坐标也不便于阅读，
+ * 因此按等级分组重新排列。同一星座的星系排成一圈，星座按星域顺序排成网格，
+ * 各等级的网格从左到右、从上到下依次排列。与虫洞连接相连的其他星系按等级排在最后。
+ *
+ * @returns 非 jspace 视图时返回 null
+ */
+export function layoutJSpace(
+	viewMode: MapViewMode | undefined,
+	systems: SolarSystem[],
+	regions: Region[] | undefined,
+	constellations: Constellation[] | undefined,
+	connections: WormholeConnection[],
+	config: JSpaceConfig | undefined,
+	unknownLabel: string,
+): JSpaceLayout | null {
+	if (viewMode !== 'jspace') {
+		return null;
+	}
+
+	const spacing = config?.systemSpacing && config.systemSpacing > 0 ? config.systemSpacing : DEFAULT_JSPACE_SYSTEM_SPACING;
+	const regionMap = new Map((regions ?? []).map((region) => [region._key, region]));
+	const constellationMap = new Map((constellations ?? []).map((constellation) => [constellation._key, constellation]));
+	const connectedIds = new Set(connections.flatMap((connection) => [connection.fromSystemId, connection.toSystemId]));
+
+	// 等级 -> 星座ID -> 星系
+	const classes = new Map<number, Map<number, SolarSystem[]>>();
+	systems.forEach((system) => {
+		if (!isWormholeSystem(system._key) && !connectedIds.has(system._key)) return;
+		const classId = getWormholeClassId(system, constellationMap, regionMap);
+		const clusters = classes.get(classId) ?? new Map<number, SolarSystem[]>();
+		const cluster = clusters.get(system.constellationID) ?? [];
+		cluster.push(system);
+		clusters.set(system.constellationID, cluster);
+		classes.set(classId, clusters);
+	});
+
+	// 每个等级排成一个星座网格，单元大小取该等级最大星座圈的直径
+	const blocks = Array.from(classes.entries())
+		.sort((a, b) => getClassRank(a[0]) - getClassRank(b[0]))
+		.map(([classId, clusters]) => {
+			const sortedClusters = Array.from(clusters.values())
+				.map((cluster) => cluster.sort((a, b) => a._key - b._key))
+				.sort((a, b) => a[0].regionID - b[0].regionID || a[0].constellationID - b[0].constellationID);
+			const ringRadius = (count: number) => (count > 1 ? spacing / (2 * Math.sin(Math.PI / count)) : 0);
+			const cellSize = 2 * Math.max(...sortedClusters.map((cluster) => ringRadius(cluster.length))) + 2 * spacing;
+			const columns = Math.ceil(Math.sqrt(sortedClusters.length));
+			const rows = Math.ceil(sortedClusters.length / columns);
+			return {
+				classId,
+				clusters: sortedClusters,
+				ringRadius,
+				cellSize,
+				columns,
+				width: columns * cellSize,
+				height: rows * cellSize,
+				isWormhole: sortedClusters.some((cluster) => isWormholeSystem(cluster[0]._key)),
+			};
+		});
+
+	// 按行排列各等级，行宽只按虫洞等级估算，避免虫洞连接变化时整体重排
+	const gap = 4 * spacing;
+	const labelMargin = 3 * spacing;
+	const wormholeBlocks = blocks.filter((block) => block.isWormhole);
+	const totalArea = wormholeBlocks.reduce((total, block) => total + (block.width + gap) * (block.height + gap + labelMargin), 0);
+	const rowWidth = Math.max(Math.sqrt(totalArea) * 1.5, ...blocks.map((block) => block.width));
+
+	const placed: Array<{ block: (typeof blocks)[number]; left: number; top: number }> = [];
+	let left = 0;
+	let top = 0;
+	let rowHeight = 0;
+	blocks.forEach((block) => {
+		if (left > 0 && left + block.width > rowWidth) {
+			left = 0;
+			top += rowHeight + gap;
+			rowHeight = 0;
+		}
+		placed.push({ block, left, top });
+		left += block.width + gap;
+		rowHeight = Math.max(rowHeight, block.height + labelMargin);
+	});
+
+	// 以布局中心为原点；布局平面 u 向右、v 向下，对应 SDE 坐标 x = u、z = -v（场景中面向初始相机）
+	const totalWidth = Math.max(0, ...placed.map(({ block, left }) => left + block.width));
+	const totalHeight = top + rowHeight;
+	const toPosition = (u: number, v: number) => ({ x: u - totalWidth / 2, y: 0, z: totalHeight / 2 - v });
+
+	const classColors = config?.classColors ?? {};
+	const layoutSystems: SolarSystem[] = [];
+	const systemColors = new Map<number, string>();
+	const groups: JSpaceClassGroup[] = placed.map(({ block, left, top }) => {
+		const color = classColors[block.classId] ?? DEFAULT_WORMHOLE_CLASS_COLORS[block.classId] ?? DEFAULT_WORMHOLE_UNKNOWN_COLOR;
+		let systemCount = 0;
+		block.clusters.forEach((cluster, index) => {
+			const centerU = left + ((index % block.columns) + 0.5) * block.cellSize;
+			const centerV = top + labelMargin + (Math.floor(index / block.columns) + 0.5) * block.cellSize;
+			const radius = block.ringRadius(cluster.length);
+			cluster.forEach((system, k) => {
+				const angle = (2 * Math.PI * k) / cluster.length - Math.PI / 2;
+				layoutSystems.push({
+					...system,
+					position: toPosition(centerU + radius * Math.cos(angle), centerV + radius * Math.sin(angle)),
+				});
+				systemColors.set(system._key, color);
+			});
+			systemCount += cluster.length;
+		});
+		return {
+			ownerId: block.classId,
+			name: WORMHOLE_CLASS_NAMES[block.classId] ?? (block.classId === UNKNOWN_CLASS_ID ? unknownLabel : `C${block.classId}`),
+			color,
+			systemCount,
+			labelPosition: toPosition(left + block.width / 2, top + labelMargin),
+		};
+	});
+
+	return { systems: layoutSystems, systemColors, groups };
+}
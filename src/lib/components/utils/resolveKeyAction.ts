@@ -0,0 +1,57 @@
+import type { MapKeyAction } from '../../types';
+import { DEFAULT_KEY_BINDINGS } from '../constants';
+
+const MODIFIER_ORDER = ['ctrl', 'alt', 'meta', 'shift'];
+
+/**
+ * 将按键组合规范化为 "ctrl+alt+meta+shift+key" 形式（小写）
+ * 单字符按键本身已体现 Shift（如 '+'、'W'），因此只有多字符按键才保留 Shift 修饰
+ */
+function normalizeCombo(modifiers: Set<string>, key: string): string {
+	const isCharacter = key.length === 1;
+	const parts = MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier) && !(modifier === 'shift' && isCharacter));
+	parts.push(key.toLowerCase());
+	return parts.join('+');
+}
+
+function parseBinding(binding: string): string | null {
+	// 末尾的 '+' 视为按键本身，如 'Ctrl++'
+	const match = /^((?:(?:ctrl|alt|meta|shift)\+)*)(.+)$/i.exec(binding);
+	if (!match) return null;
+	const modifiers = new Set(match[1].toLowerCase().split('+').filter(Boolean));
+	return normalizeCombo(modifiers, match[2]);
+}
+
+/**
+ * 合并自定义按键并生成 按键组合 -> 操作 的查找表
+ */
+export function createKeyActionMap(bindings?: Partial<Record<MapKeyAction, string[]>>): Map<string, MapKeyAction> {
+	const merged = { ...DEFAULT_KEY_BINDINGS, ...bindings };
+	const result = new Map<string, MapKeyAction>();
+	(Object.keys(merged) as MapKeyAction[]).forEach((action) => {
+		merged[action]?.forEach((binding) => {
+			const combo = parseBinding(binding);
+			if (combo) {
+				result.set(combo, action);
+			}
+		});
+	});
+	return result;
+}
+
+/**
+ * 查找键盘事件对应的操作
+ *
+ * @returns 没有绑定时返回 null
+ */
+export function resolveKeyAction(
+	event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>,
+	actionMap: Map<string, MapKeyAction>,
+): MapKeyAction | null {
+	const modifiers = new Set<string>();
+	if (event.ctrlKey) modifiers.add('ctrl');
+	if (event.altKey) modifiers.add('alt');
+	if (event.metaKey) modifiers.add('meta');
+	if (event.shiftKey) modifiers.add('shift');
+	return actionMap.get(normalizeCombo(modifiers, event.key)) ?? null;
+}
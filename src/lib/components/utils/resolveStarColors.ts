@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import type { ColorMode, SpectralType, Star, StarColorConfig } from '../../types';
+import { DEFAULT_STAR_COLORS, DEFAULT_STAR_SIZE_RANGE, SPECTRAL_TYPE_TEMPERATURES } from '../constants';
+import type { TerritoryOwnerEntry } from './resolveTerritoryColors';
+
+export interface StarColors {
+	/** 星系ID -> 颜色 */
+	systemColors: Map<number, THREE.Color>;
+	/** 星系ID -> 大小倍数 */
+	systemSizes: Map<number, number>;
+	/** 图例条目：按温度从高到低排列的光谱型（ownerId 为光谱型） */
+	spectralTypes: TerritoryOwnerEntry[];
+}
+
+// 按温度从高到低排列
+const SPECTRAL_TYPES = (Object.keys(SPECTRAL_TYPE_TEMPERATURES) as SpectralType[]).sort(
+	(a, b) => SPECTRAL_TYPE_TEMPERATURES[b] - SPECTRAL_TYPE_TEMPERATURES[a],
+);
+
+/**
+ * 取恒星的光谱型：优先取光谱型字符串首字母，无法识别时取温度最接近的光谱型
+ */
+export function getSpectralType(star: Star): SpectralType | null {
+	const letter = star.spectralClass?.trim().charAt(0).toUpperCase();
+	if (letter && letter in SPECTRAL_TYPE_TEMPERATURES) {
+		return letter as SpectralType;
+	}
+	if (!Number.isFinite(star.temperature)) {
+		return null;
+	}
+	return SPECTRAL_TYPES.reduce((nearest, type) =>
+		Math.abs(SPECTRAL_TYPE_TEMPERATURES[type] - star.temperature) <
+		Math.abs(SPECTRAL_TYPE_TEMPERATURES[nearest] - star.temperature)
+			? type
+			: nearest,
+	);
+}
+
+/**
+ * 按恒星温度为星系着色（在相邻光谱型的颜色之间插值），按光度（对数）确定大小
+ *
+ * @returns 非恒星着色模式或没有恒星数据时返回 null
+ */
+export function resolveStarColors(
+	colorMode: ColorMode | undefined,
+	stars: Star[] | undefined,
+	config: StarColorConfig | undefined,
+): StarColors | null {
+	if (colorMode !== 'star' || !stars || stars.length === 0) {
+		return null;
+	}
+
+	const palette = SPECTRAL_TYPES.map((type) => ({
+		type,
+		temperature: SPECTRAL_TYPE_TEMPERATURES[type],
+		color: new THREE.Color(config?.colors?.[type] ?? DEFAULT_STAR_COLORS[type]),
+	}));
+	const paletteByType = new Map(palette.map((entry) => [entry.type, entry]));
+
+	const colorAt = (star: Star, type: SpectralType, target: THREE.Color) => {
+		const temperature = star.temperature;
+		if (!Number.isFinite(temperature)) {
+			return target.copy(paletteByType.get(type)!.color);
+		}
+		if (temperature >= palette[0].temperature) {
+			return target.copy(palette[0].color);
+		}
+		for (let i = 1; i < palette.length; i++) {
+			const hot = palette[i - 1];
+			const cold = palette[i];
+			if (temperature >= cold.temperature) {
+				return target.copy(cold.color).lerp(hot.color, (temperature - cold.temperature) / (hot.temperature - cold.temperature));
+			}
+		}
+		return target.copy(palette[palette.length - 1].color);
+	};
+
+	// 光度跨越多个数量级，按对数映射到大小范围
+	const sizeByLuminosity = config?.sizeByLuminosity !== false;
+	const [minSize, maxSize] = config?.sizeRange ?? DEFAULT_STAR_SIZE_RANGE;
+	let minLog = Infinity;
+	let maxLog = -Infinity;
+	if (sizeByLuminosity) {
+		stars.forEach((star) => {
+			if (star.luminosity > 0) {
+				const value = Math.log10(star.luminosity);
+				minLog = Math.min(minLog, value);
+				maxLog = Math.max(maxLog, value);
+			}
+		});
+	}
+	const sizeAt = (luminosity: number) => {
+		if (!sizeByLuminosity || !(luminosity > 0) || !(maxLog > minLog)) return 1;
+		return minSize + ((Math.log10(luminosity) - minLog) / (maxLog - minLog)) * (maxSize - minSize);
+	};
+
+	const systemColors = new Map<number, THREE.Color>();
+	const systemSizes = new Map<number, number>();
+	const counts = new Map<SpectralType, number>();
+	stars.forEach((star) => {
+		const type = getSpectralType(star);
+		if (!type) return;
+		systemColors.set(star.solarSystemID, colorAt(star, type, new THREE.Color()));
+		systemSizes.set(star.solarSystemID, sizeAt(star.luminosity));
+		counts.set(type, (counts.get(type) ?? 0) + 1);
+	});
+
+	const spectralTypes = palette
+		.filter((entry) => counts.has(entry.type))
+		.map((entry) => ({
+			ownerId: entry.type,
+			name: entry.type,
+			color: `#${entry.color.getHexString()}`,
+			systemCount: counts.get(entry.type)!,
+		}));
+
+	return { systemColors, systemSizes, spectralTypes };
+}
@@ -0,0 +1,81 @@
+import type { ColorMode, Language, TerritoryColorConfig } from '../../types';
+import { DEFAULT_FACTIONS, DEFAULT_TERRITORY_PALETTE } from '../constants';
+import { getLocalizedName } from '../../i18n';
+
+export interface TerritoryOwnerEntry {
+	ownerId: number | string;
+	name: string;
+	color: string;
+	systemCount: number;
+}
+
+export interface TerritoryColors {
+	/** 星系ID -> 颜色 */
+	systemColors: Map<number, string>;
+	/** 归属ID -> 颜色 */
+	ownerColors: Map<number | string, string>;
+	/** 按拥有星系数从多到少排列的归属 */
+	owners: TerritoryOwnerEntry[];
+}
+
+/**
+ * 判断着色模式是否按归属着色
+ */
+export function isTerritoryColorMode(colorMode?: ColorMode): boolean {
+	return colorMode === 'sovereignty' || colorMode === 'faction' || colorMode === 'custom';
+}
+
+/**
+ * 为每个归属分配颜色：优先使用 colors 指定的颜色（faction 模式下回退到内置帝国颜色），
+ * 其余归属按拥有星系数从多到少依次使用调色板
+ *
+ * @returns 非领地着色模式或未提供 owners 时返回 null
+ */
+export function resolveTerritoryColors(
+	colorMode: ColorMode | undefined,
+	territory: TerritoryColorConfig | undefined,
+	language: Language,
+): TerritoryColors | null {
+	if (!isTerritoryColorMode(colorMode) || !territory?.owners) {
+		return null;
+	}
+
+	const counts = new Map<number | string, number>();
+	territory.owners.forEach((ownerId) => {
+		counts.set(ownerId, (counts.get(ownerId) ?? 0) + 1);
+	});
+
+	// 按星系数降序、归属ID升序排列，保证颜色分配稳定
+	const sortedOwners = Array.from(counts.entries()).sort(
+		(a, b) => b[1] - a[1] || String(a[0]).localeCompare(String(b[0]), undefined, { numeric: true }),
+	);
+
+	const palette = territory.palette && territory.palette.length > 0 ? territory.palette : DEFAULT_TERRITORY_PALETTE;
+	const ownerColors = new Map<number | string, string>();
+	const owners: TerritoryOwnerEntry[] = [];
+	let paletteIndex = 0;
+
+	sortedOwners.forEach(([ownerId, systemCount]) => {
+		const key = String(ownerId);
+		const faction = colorMode === 'faction' ? DEFAULT_FACTIONS[key] : undefined;
+		let color = territory.colors?.[key] ?? faction?.color;
+		if (!color) {
+			color = palette[paletteIndex % palette.length];
+			paletteIndex += 1;
+		}
+		ownerColors.set(ownerId, color);
+		owners.push({
+			ownerId,
+			name: territory.ownerNames?.[key] ?? (faction ? getLocalizedName(faction.name, language) : key),
+			color,
+			systemCount,
+		});
+	});
+
+	const systemColors = new Map<number, string>();
+	territory.owners.forEach((ownerId, systemId) => {
+		systemColors.set(systemId, ownerColors.get(ownerId)!);
+	});
+
+	return { systemColors, ownerColors, owners };
+}
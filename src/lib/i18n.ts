@@ -0,0 +1,270 @@
+import type { Language, LocaleStrings } from './types';
+
+/** 支持的全部语言 */
+export const LANGUAGES: Language[] = ['zh', 'en', 'de', 'fr', 'ja', 'ko', 'ru', 'es'];
+
+/**
+ * 名称回退链：当前语言缺少名称时依次尝试的语言
+ * 数据中只保留 zh / en 时，其他语言会回退到英文名称
+ */
+export const LANGUAGE_FALLBACKS: Record<Language, Language[]> = {
+  zh: ['zh', 'en'],
+  en: ['en', 'zh'],
+  de: ['de', 'en'],
+  fr: ['fr', 'en'],
+  ja: ['ja', 'en', 'zh'],
+  ko: ['ko', 'en'],
+  ru: ['ru', 'en'],
+  es: ['es', 'en'],
+};
+
+/** 内置界面文本 */
+export const DEFAULT_LOCALE_STRINGS: Record<Language, LocaleStrings> = {
+  zh: {
+    selectSystem: '选择 {name}',
+    focusSystem: '聚焦到星系',
+    highlightRegion: '高亮星域 {name}',
+    focusRegion: '聚焦到星域',
+    resetCamera: '重置视角',
+    deselect: '取消选择',
+    security: '安全等级',
+    system: '星系',
+    region: '星域',
+    constellation: '星座',
+    searchPlaceholder: '搜索星系 / 星域 / 星座',
+    heatmap: '热力图',
+    sovereignty: '主权',
+    factions: '势力',
+    legend: '图例',
+    spectralClass: '光谱型',
+    wormholeClass: '虫洞等级',
+    other: '其他',
+    unclaimed: '无归属',
+    startMeasure: '测量距离',
+    measureFrom: '从 {name} 测量距离',
+    exitMeasureMode: '退出测量',
+    measureJumps: '{count} 跳',
+    noGateRoute: '星门不可达',
+  },
+  en: {
+    selectSystem: 'Select {name}',
+    focusSystem: 'Focus System',
+    highlightRegion: 'Highlight {name}',
+    focusRegion: 'Focus Region',
+    resetCamera: 'Reset Camera',
+    deselect: 'Deselect',
+    security: 'Security',
+    system: 'System',
+    region: 'Region',
+    constellation: 'Constellation',
+    searchPlaceholder: 'Search systems / regions / constellations',
+    heatmap: 'Heatmap',
+    sovereignty: 'Sovereignty',
+    factions: 'Factions',
+    legend: 'Legend',
+    spectralClass: 'Spectral class',
+    wormholeClass: 'Wormhole class',
+    other: 'Other',
+    unclaimed: 'Unclaimed',
+    startMeasure: 'Measure Distance',
+    measureFrom: 'Measure from {name}',
+    exitMeasureMode: 'Exit Measure Mode',
+    measureJumps: '{count} jumps',
+    noGateRoute: 'No gate route',
+  },
+  de: {
+    selectSystem: '{name} auswählen',
+    focusSystem: 'System fokussieren',
+    highlightRegion: '{name} hervorheben',
+    focusRegion: 'Region fokussieren',
+    resetCamera: 'Kamera zurücksetzen',
+    deselect: 'Auswahl aufheben',
+    security: 'Sicherheit',
+    system: 'System',
+    region: 'Region',
+    constellation: 'Konstellation',
+    searchPlaceholder: 'Systeme / Regionen / Konstellationen suchen',
+    heatmap: 'Heatmap',
+    sovereignty: 'Souveränität',
+    factions: 'Fraktionen',
+    legend: 'Legende',
+    spectralClass: 'Spektralklasse',
+    wormholeClass: 'Wurmlochklasse',
+    other: 'Sonstige',
+    unclaimed: 'Nicht beansprucht',
+    startMeasure: 'Entfernung messen',
+    measureFrom: 'Entfernung ab {name} messen',
+    exitMeasureMode: 'Messmodus beenden',
+    measureJumps: '{count} Sprünge',
+    noGateRoute: 'Keine Gate-Route',
+  },
+  fr: {
+    selectSystem: 'Sélectionner {name}',
+    focusSystem: 'Centrer sur le système',
+    highlightRegion: 'Mettre en évidence {name}',
+    focusRegion: 'Centrer sur la région',
+    resetCamera: 'Réinitialiser la caméra',
+    deselect: 'Désélectionner',
+    security: 'Sécurité',
+    system: 'Système',
+    region: 'Région',
+    constellation: 'Constellation',
+    searchPlaceholder: 'Rechercher systèmes / régions / constellations',
+    heatmap: 'Carte de chaleur',
+    sovereignty: 'Souveraineté',
+    factions: 'Factions',
+    legend: 'Légende',
+    spectralClass: 'Classe spectrale',
+    wormholeClass: 'Classe de trou de ver',
+    other: 'Autres',
+    unclaimed: 'Non revendiqué',
+    startMeasure: 'Mesurer la distance',
+    measureFrom: 'Mesurer depuis {name}',
+    exitMeasureMode: 'Quitter le mode mesure',
+    measureJumps: '{count} sauts',
+    noGateRoute: 'Aucune route par portail',
+  },
+  ja: {
+    selectSystem: '{name} を選択',
+    focusSystem: '星系にフォーカス',
+    highlightRegion: '{name} をハイライト',
+    focusRegion: 'リージョンにフォーカス',
+    resetCamera: 'カメラをリセット',
+    deselect: '選択解除',
+    security: 'セキュリティ',
+    system: '星系',
+    region: 'リージョン',
+    constellation: 'コンステレーション',
+    searchPlaceholder: '星系 / リージョン / コンステレーションを検索',
+    heatmap: 'ヒートマップ',
+    sovereignty: '主権',
+    factions: '勢力',
+    legend: '凡例',
+    spectralClass: 'スペクトル型',
+    wormholeClass: 'ワームホールクラス',
+    other: 'その他',
+    unclaimed: '未所有',
+    startMeasure: '距離を測定',
+    measureFrom: '{name} から距離を測定',
+    exitMeasureMode: '測定モードを終了',
+    measureJumps: '{count} ジャンプ',
+    noGateRoute: 'ゲート経路なし',
+  },
+  ko: {
+    selectSystem: '{name} 선택',
+    focusSystem: '성계로 이동',
+    highlightRegion: '{name} 강조',
+    focusRegion: '지역으로 이동',
+    resetCamera: '카메라 초기화',
+    deselect: '선택 해제',
+    security: '보안 등급',
+    system: '성계',
+    region: '지역',
+    constellation: '성좌',
+    searchPlaceholder: '성계 / 지역 / 성좌 검색',
+    heatmap: '히트맵',
+    sovereignty: '소버린티',
+    factions: '세력',
+    legend: '범례',
+    spectralClass: '분광형',
+    wormholeClass: '웜홀 등급',
+    other: '기타',
+    unclaimed: '미점유',
+    startMeasure: '거리 측정',
+    measureFrom: '{name}에서 거리 측정',
+    exitMeasureMode: '측정 모드 종료',
+    measureJumps: '{count} 점프',
+    noGateRoute: '게이트 경로 없음',
+  },
+  ru: {
+    selectSystem: 'Выбрать {name}',
+    focusSystem: 'Фокус на системе',
+    highlightRegion: 'Выделить {name}',
+    focusRegion: 'Фокус на регионе',
+    resetCamera: 'Сбросить камеру',
+    deselect: 'Снять выделение',
+    security: 'Безопасность',
+    system: 'Система',
+    region: 'Регион',
+    constellation: 'Созвездие',
+    searchPlaceholder: 'Поиск систем / регионов / созвездий',
+    heatmap: 'Тепловая карта',
+    sovereignty: 'Суверенитет',
+    factions: 'Фракции',
+    legend: 'Легенда',
+    spectralClass: 'Спектральный класс',
+    wormholeClass: 'Класс червоточины',
+    other: 'Прочие',
+    unclaimed: 'Не занято',
+    startMeasure: 'Измерить расстояние',
+    measureFrom: 'Измерить от {name}',
+    exitMeasureMode: 'Выйти из режима измерения',
+    measureJumps: 'прыжков: {count}',
+    noGateRoute: 'Нет маршрута через врата',
+  },
+  es: {
+    selectSystem: 'Seleccionar {name}',
+    focusSystem: 'Enfocar sistema',
+    highlightRegion: 'Resaltar {name}',
+    focusRegion: 'Enfocar región',
+    resetCamera: 'Restablecer cámara',
+    deselect: 'Deseleccionar',
+    security: 'Seguridad',
+    system: 'Sistema',
+    region: 'Región',
+    constellation: 'Constelación',
+    searchPlaceholder: 'Buscar sistemas / regiones / constelaciones',
+    heatmap: 'Mapa de calor',
+    sovereignty: 'Soberanía',
+    factions: 'Facciones',
+    legend: 'Leyenda',
+    spectralClass: 'Clase espectral',
+    wormholeClass: 'Clase de agujero de gusano',
+    other: 'Otros',
+    unclaimed: 'Sin reclamar',
+    startMeasure: 'Medir distancia',
+    measureFrom: 'Medir desde {name}',
+    exitMeasureMode: 'Salir del modo medición',
+    measureJumps: '{count} saltos',
+    noGateRoute: 'Sin ruta por portales',
+  },
+};
+
+/**
+ * 获取当前语言的界面文本，overrides 中的文本优先
+ */
+export function getLocaleStrings(language: Language, overrides?: Partial<LocaleStrings>): LocaleStrings {
+  const builtIn = DEFAULT_LOCALE_STRINGS[language] ?? DEFAULT_LOCALE_STRINGS.en;
+  return overrides ? { ...builtIn, ...overrides } : builtIn;
+}
+
+/**
+ * 替换文本中的 {key} 占位符
+ */
+export function formatLocaleString(template: string, params: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+}
+
+/**
+ * 按回退链取本地化名称，回退链中都没有时返回任意非空名称
+ *
+ * @param fallbacks 自定义回退链（默认 LANGUAGE_FALLBACKS[language]）
+ */
+export function getLocalizedName(
+  name: { [key: string]: string } | undefined,
+  language: Language,
+  fallbacks: Language[] = LANGUAGE_FALLBACKS[language] ?? [language, 'en'],
+): string {
+  if (!name) return '';
+  for (const locale of fallbacks) {
+    if (name[locale]) return name[locale];
+  }
+  return Object.values(name).find(Boolean) ?? '';
+}
+
+/**
+ * 是否为中日韩语言（用于估算标签宽度）
+ */
+export function isCJKLanguage(language: Language): boolean {
+  return language === 'zh' || language === 'ja' || language === 'ko';
+}
@@ -2,6 +2,15 @@
 
 export { default as EveMap3D } from './EveMap3D';
 export { useMapControl } from './useMapControl';
+export { useMapHashSync } from './useMapHashSync';
+export { MapSearch } from './components/MapSearch';
+export { searchMap } from './mapSearch';
+export { parseIntelLog } from './intelLogParser';
+export { encodeMapViewState, decodeMapViewState } from './mapState';
+export { MAP_DATA_FORMAT_VERSION, encodeMapData, decodeMapData, expandMapData, loadCompactMapData } from './mapDataFormat';
+export { loadMapData } from './mapDataLoader';
+export { LANGUAGES, LANGUAGE_FALLBACKS, DEFAULT_LOCALE_STRINGS, getLocaleStrings, getLocalizedName, formatLocaleString } from './i18n';
 export * from './types';
 export * from './utils';
+export { calculateJumpChain, getJumpRange, getJumpIsotopes, JUMP_SHIP_PROFILES } from './jumpCalculator';
 
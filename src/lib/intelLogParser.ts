@@ -0,0 +1,238 @@
+import type { IntelLogParseOptions, IntelLogReport, SolarSystem } from './types';
+
+// 聊天记录行：[ 2024.01.31 18:04:12 ] Reporter Name > message
+const LOG_LINE_PATTERN = /^\s*\[\s*(\d{4})\.(\d{2})\.(\d{2})\s+(\d{2}):(\d{2}):(\d{2})\s*\]\s*(.+?)\s+>\s?(.*)$/;
+
+// 频道系统消息（如 MOTD）不是情报
+const SYSTEM_REPORTER = 'EVE System';
+
+// 默认不作为星系名称匹配的常见情报用语
+const DEFAULT_IGNORE_WORDS = [
+  'nv', 'clr', 'clear', 'status', 'stat', 'gate', 'gates', 'local', 'spike', 'red', 'reds', 'neut', 'neuts',
+  'hostile', 'hostiles', 'camp', 'bubble', 'bubbled', 'cyno', 'docked', 'fleet', 'gang', 'and', 'the', 'out', 'in',
+];
+
+const CLEAR_WORDS = new Set(['clr', 'clear']);
+
+// 去掉词首尾的标点（保留名称中的连字符）
+const EDGE_PUNCTUATION = /^[\s,.;:!?'"()[\]{}<>*]+|[\s,.;:!?'"()[\]{}<>*]+$/g;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+/**
+ * 部分名称只接受像星系名称的词（含数字或连字符，或全大写，如 "1DQ"、"HED-"、"EC"），
+ * 以免 "sun"、"near" 之类的普通单词按前缀匹配到星系
+ */
+function looksLikeSystemName(word: string): boolean {
+  return /[\d-]/.test(word) || (word === word.toUpperCase() && word !== word.toLowerCase());
+}
+
+interface NameIndex {
+  /** 小写名称 -> 星系（包含所有语言） */
+  exact: Map<string, SolarSystem[]>;
+  /** 按字典序排列的小写名称，用于二分查找前缀 */
+  sortedNames: string[];
+  /** 名称包含的最大单词数 */
+  maxWords: number;
+  /** 中日韩名称的最大长度，用于在未分词的文本中查找 */
+  maxCJKLength: number;
+}
+
+// 同一组星系数据只建立一次索引
+const indexCache = new WeakMap<SolarSystem[], NameIndex>();
+
+function getNameIndex(systems: SolarSystem[]): NameIndex {
+  const cached = indexCache.get(systems);
+  if (cached) return cached;
+
+  const exact = new Map<string, SolarSystem[]>();
+  let maxWords = 1;
+  let maxCJKLength = 0;
+  systems.forEach((system) => {
+    new Set(Object.values(system.name).filter(Boolean).map((name) => name.trim().toLowerCase())).forEach((name) => {
+      const list = exact.get(name);
+      if (list) {
+        list.push(system);
+      } else {
+        exact.set(name, [system]);
+      }
+      maxWords = Math.max(maxWords, name.split(/\s+/).length);
+      if (CJK_PATTERN.test(name)) {
+        maxCJKLength = Math.max(maxCJKLength, name.length);
+      }
+    });
+  });
+
+  const index: NameIndex = { exact, sortedNames: Array.from(exact.keys()).sort(), maxWords, maxCJKLength };
+  indexCache.set(systems, index);
+  return index;
+}
+
+/**
+ * 查找以 prefix 开头的名称对应的星系，不唯一时返回 null
+ */
+function findUniqueByPrefix(index: NameIndex, prefix: string): SolarSystem | null {
+  const names = index.sortedNames;
+  let low = 0;
+  let high = names.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (names[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let found: SolarSystem | null = null;
+  for (let i = low; i < names.length && names[i].startsWith(prefix); i++) {
+    for (const system of index.exact.get(names[i])!) {
+      if (found && found._key !== system._key) return null;
+      found = system;
+    }
+  }
+  return found;
+}
+
+/**
+ * 在未分词的中日韩文本中查找最长的完整星系名称
+ */
+function findCJKNames(index: NameIndex, text: string): Array<{ system: SolarSystem; text: string }> {
+  const matches: Array<{ system: SolarSystem; text: string }> = [];
+  let start = 0;
+  while (start < text.length) {
+    let matched = false;
+    for (let length = Math.min(index.maxCJKLength, text.length - start); length > 0; length--) {
+      const candidate = text.slice(start, start + length);
+      const systems = index.exact.get(candidate.toLowerCase());
+      if (systems) {
+        matches.push({ system: systems[0], text: candidate });
+        start += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) start++;
+  }
+  return matches;
+}
+
+/**
+ * 解析消息中的敌对人数：优先取 "+5"，否则累加 "x3" / "3x"
+ */
+function parseCount(words: string[]): number | undefined {
+  for (const word of words) {
+    const plus = /^\+(\d+)$/.exec(word);
+    if (plus) return Number(plus[1]);
+  }
+  let total = 0;
+  for (const word of words) {
+    const multiplier = /^[x×](\d+)$/i.exec(word) ?? /^(\d+)[x×]$/i.exec(word);
+    if (multiplier) total += Number(multiplier[1]);
+  }
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * 识别一条消息中提到的星系
+ */
+function matchSystems(
+  index: NameIndex,
+  words: string[],
+  ignoreWords: Set<string>,
+  minPartialLength: number,
+): Array<{ system: SolarSystem; text: string }> {
+  const matches: Array<{ system: SolarSystem; text: string }> = [];
+  let i = 0;
+  while (i < words.length) {
+    let consumed = 0;
+
+    // 先按完整名称匹配，多词名称（如 "New Caldari"）优先
+    for (let count = Math.min(index.maxWords, words.length - i); count > 0; count--) {
+      const text = words.slice(i, i + count).join(' ');
+      const key = text.toLowerCase();
+      if (count === 1 && ignoreWords.has(key)) break;
+      const systems = index.exact.get(key);
+      if (systems) {
+        matches.push({ system: systems[0], text });
+        consumed = count;
+        break;
+      }
+    }
+
+    if (consumed === 0) {
+      const word = words[i];
+      const key = word.toLowerCase();
+      if (CJK_PATTERN.test(word)) {
+        matches.push(...findCJKNames(index, word));
+      } else if (
+        key.length >= minPartialLength &&
+        !ignoreWords.has(key) &&
+        !/^[+x×]?\d+[x×]?$/i.test(key) &&
+        looksLikeSystemName(word)
+      ) {
+        // 部分名称：唯一前缀匹配，如 "1DQ" -> "1DQ1-A"
+        const system = findUniqueByPrefix(index, key);
+        if (system) {
+          matches.push({ system, text: word });
+        }
+      }
+      consumed = 1;
+    }
+
+    i += consumed;
+  }
+  return matches;
+}
+
+/**
+ * 解析 EVE 本地 / 情报频道聊天记录，识别消息中提到的星系
+ *
+ * 星系名称匹配所有语言且不区分大小写；部分名称（如 "1DQ"）只在唯一对应一个星系、
+ * 且该词含数字或连字符或全大写时匹配。
+ * 不符合聊天记录格式的行（如文件头）和频道系统消息会被忽略。
+ *
+ * @param text 聊天记录文本（可为整个日志文件或若干行）
+ * @param systems 参与匹配的星系
+ * @param options 解析选项
+ * @returns 按消息顺序排列的情报，每条消息中的每个星系各一条
+ */
+export function parseIntelLog(text: string, systems: SolarSystem[], options: IntelLogParseOptions = {}): IntelLogReport[] {
+  const index = getNameIndex(systems);
+  const ignoreWords = new Set((options.ignoreWords ?? DEFAULT_IGNORE_WORDS).map((word) => word.toLowerCase()));
+  const minPartialLength = Math.max(options.minPartialLength ?? 3, 1);
+  const reports: IntelLogReport[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = LOG_LINE_PATTERN.exec(line);
+    if (!match) continue;
+
+    const [, year, month, day, hour, minute, second, reporter, message] = match;
+    if (reporter === SYSTEM_REPORTER) continue;
+    const timestamp = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    if (options.since !== undefined && timestamp < options.since) continue;
+
+    const words = message
+      .split(/\s+/)
+      .map((word) => word.replace(EDGE_PUNCTUATION, ''))
+      .filter(Boolean);
+    const count = parseCount(words);
+    const clear = words.some((word) => CLEAR_WORDS.has(word.toLowerCase()));
+
+    const seen = new Set<number>();
+    matchSystems(index, words, ignoreWords, minPartialLength).forEach(({ system, text: matchedText }) => {
+      if (seen.has(system._key)) return;
+      seen.add(system._key);
+      reports.push({
+        systemId: system._key,
+        count,
+        note: message.trim(),
+        timestamp,
+        reporter,
+        matchedText,
+        clear,
+      });
+    });
+  }
+
+  return reports;
+}
@@ -0,0 +1,144 @@
+import type {
+  JumpChainHop,
+  JumpChainOptions,
+  JumpChainResult,
+  JumpShipClass,
+  JumpShipProfile,
+  JumpSkillLevels,
+  SolarSystem,
+} from './types';
+import { getLightYearDistance } from './jumpRoutePlanner';
+
+/**
+ * 各舰船类型的默认跳跃属性
+ * 数值可能随游戏版本变化，可通过 JumpChainOptions.shipProfile 覆盖
+ */
+export const JUMP_SHIP_PROFILES: Record<JumpShipClass, JumpShipProfile> = {
+  carrier: { baseRangeLightYears: 3.5, fuelPerLightYear: 3000, fatigueReduction: 0 },
+  dreadnought: { baseRangeLightYears: 3.5, fuelPerLightYear: 3000, fatigueReduction: 0 },
+  forceAuxiliary: { baseRangeLightYears: 3.5, fuelPerLightYear: 3000, fatigueReduction: 0 },
+  supercarrier: { baseRangeLightYears: 3.0, fuelPerLightYear: 3000, fatigueReduction: 0 },
+  titan: { baseRangeLightYears: 3.0, fuelPerLightYear: 10000, fatigueReduction: 0 },
+  blackOps: { baseRangeLightYears: 4.0, fuelPerLightYear: 700, fatigueReduction: 0.75 },
+  jumpFreighter: { baseRangeLightYears: 5.0, fuelPerLightYear: 10000, fatigueReduction: 0.9 },
+  rorqual: { baseRangeLightYears: 5.0, fuelPerLightYear: 4000, fatigueReduction: 0.9 },
+};
+
+// 跳跃疲劳上限（5 小时）
+const MAX_FATIGUE_MINUTES = 300;
+// 重新激活计时上限
+const MAX_REACTIVATION_MINUTES = 30;
+// 计算新疲劳时使用的最小基数
+const MIN_FATIGUE_BASE_MINUTES = 10;
+
+function clampSkillLevel(level: number | undefined): number {
+  if (level === undefined || !Number.isFinite(level)) {
+    return 5;
+  }
+  return Math.min(Math.max(Math.floor(level), 0), 5);
+}
+
+/**
+ * 计算舰船在给定技能下的最大跳跃距离（单位：光年）
+ */
+export function getJumpRange(shipClass: JumpShipClass, skills: JumpSkillLevels = {}, shipProfile?: Partial<JumpShipProfile>): number {
+  const profile = { ...JUMP_SHIP_PROFILES[shipClass], ...shipProfile };
+  return profile.baseRangeLightYears * (1 + 0.2 * clampSkillLevel(skills.jumpDriveCalibration));
+}
+
+/**
+ * 计算单跳的同位素消耗
+ */
+export function getJumpIsotopes(
+  distanceLightYears: number,
+  shipClass: JumpShipClass,
+  skills: JumpSkillLevels = {},
+  shipProfile?: Partial<JumpShipProfile>,
+): number {
+  const profile = { ...JUMP_SHIP_PROFILES[shipClass], ...shipProfile };
+  let multiplier = 1 - 0.1 * clampSkillLevel(skills.jumpFuelConservation);
+  if (shipClass === 'jumpFreighter') {
+    multiplier *= 1 - 0.1 * clampSkillLevel(skills.jumpFreighters);
+  }
+  return Math.ceil(distanceLightYears * profile.fuelPerLightYear * multiplier);
+}
+
+/**
+ * 计算跳跃链的距离、同位素消耗、跳跃疲劳与重新激活计时
+ * 纯函数，不依赖 3D 地图，可直接用于外部工具
+ *
+ * 规则：
+ * - 有效距离 = 距离 × (1 - 疲劳减免)
+ * - 重新激活计时 = min(30, max(起跳前疲劳 / 10, 1 + 有效距离)) 分钟
+ * - 起跳后疲劳 = min(300, max(起跳前疲劳, 10) × (1 + 有效距离)) 分钟
+ * - 每一跳在上一跳的重新激活计时结束（加上 extraWaitMinutes）后立即起跳，期间疲劳按实际时间衰减
+ *
+ * @param systems 星系数据（数组或以星系ID为键的 Map）
+ * @param systemIds 按顺序排列的星系ID（包含起点和终点）
+ * @param options 计算选项
+ * @returns 计算结果，任一星系ID无法找到时返回 null
+ */
+export function calculateJumpChain(
+  systems: SolarSystem[] | Map<number, SolarSystem>,
+  systemIds: number[],
+  options: JumpChainOptions,
+): JumpChainResult | null {
+  const systemMap = systems instanceof Map ? systems : new Map(systems.map((system) => [system._key, system]));
+  const chain = systemIds.map((systemId) => systemMap.get(systemId));
+  if (chain.some((system) => system === undefined)) {
+    return null;
+  }
+
+  const { shipClass, skills = {}, shipProfile } = options;
+  const profile = { ...JUMP_SHIP_PROFILES[shipClass], ...shipProfile };
+  const maxRangeLightYears = getJumpRange(shipClass, skills, shipProfile);
+  const extraWaitMinutes = Math.max(options.extraWaitMinutes ?? 0, 0);
+
+  const hops: JumpChainHop[] = [];
+  let fatigue = Math.max(options.initialFatigueMinutes ?? 0, 0);
+  let reactivation = 0;
+  let clock = 0;
+
+  for (let index = 0; index < chain.length - 1; index++) {
+    const from = chain[index]!;
+    const to = chain[index + 1]!;
+
+    // 等待上一跳的重新激活计时结束，疲劳随时间衰减
+    if (index > 0) {
+      const wait = reactivation + extraWaitMinutes;
+      clock += wait;
+      fatigue = Math.max(fatigue - wait, 0);
+    }
+
+    const distanceLightYears = getLightYearDistance(from, to);
+    const effectiveLightYears = distanceLightYears * (1 - profile.fatigueReduction);
+    const fatigueBeforeMinutes = fatigue;
+    reactivation = Math.min(Math.max(fatigueBeforeMinutes / 10, 1 + effectiveLightYears), MAX_REACTIVATION_MINUTES);
+    fatigue = Math.min(Math.max(fatigueBeforeMinutes, MIN_FATIGUE_BASE_MINUTES) * (1 + effectiveLightYears), MAX_FATIGUE_MINUTES);
+
+    hops.push({
+      fromSystemId: from._key,
+      toSystemId: to._key,
+      distanceLightYears,
+      effectiveLightYears,
+      withinRange: distanceLightYears <= maxRangeLightYears,
+      isotopes: getJumpIsotopes(distanceLightYears, shipClass, skills, shipProfile),
+      departureMinutes: clock,
+      fatigueBeforeMinutes,
+      fatigueAfterMinutes: fatigue,
+      reactivationMinutes: reactivation,
+    });
+  }
+
+  return {
+    shipClass,
+    maxRangeLightYears,
+    hops,
+    totalLightYears: hops.reduce((total, hop) => total + hop.distanceLightYears, 0),
+    totalIsotopes: hops.reduce((total, hop) => total + hop.isotopes, 0),
+    totalTravelMinutes: clock,
+    finalFatigueMinutes: fatigue,
+    finalReactivationMinutes: reactivation,
+    allWithinRange: hops.every((hop) => hop.withinRange),
+  };
+}
@@ -0,0 +1,159 @@
+import type { JumpFatigueModel, JumpRouteHop, JumpRouteOptions, SolarSystem } from './types';
+import { HIGHSEC_SECURITY_THRESHOLD, JUMP_DRIVE_LIGHTYEAR_IN_METERS } from './components/constants';
+import { MinHeap } from './routePlanner';
+
+/**
+ * 跳跃路线寻路结果
+ */
+export interface JumpRouteSearchResult {
+  /** 按顺序排列的星系ID（包含起点和终点） */
+  systemIds: number[];
+  /** 每一跳的信息 */
+  hops: JumpRouteHop[];
+}
+
+// 'jumps' 模式下每一跳的权重，远大于单跳光年数，保证优先减少跳数、其次减少光年
+const JUMP_COUNT_WEIGHT = 1000;
+// 'lightyears' 模式下每一跳的附加权重，用于在总光年相同时减少跳数
+const JUMP_TIE_BREAK_WEIGHT = 1e-6;
+
+/**
+ * 计算两个星系之间的直线距离（光年）
+ */
+export function getLightYearDistance(a: SolarSystem, b: SolarSystem): number {
+  const dx = a.position.x - b.position.x;
+  const dy = a.position.y - b.position.y;
+  const dz = a.position.z - b.position.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz) / JUMP_DRIVE_LIGHTYEAR_IN_METERS;
+}
+
+/**
+ * 以跳跃距离为格子大小的空间网格，用于快速查找射程内的星系
+ */
+function buildSpatialGrid(systems: SolarSystem[], cellSize: number) {
+  const grid = new Map<string, SolarSystem[]>();
+  const cellOf = (system: SolarSystem) => [
+    Math.floor(system.position.x / cellSize),
+    Math.floor(system.position.y / cellSize),
+    Math.floor(system.position.z / cellSize),
+  ];
+  systems.forEach((system) => {
+    const key = cellOf(system).join(',');
+    const bucket = grid.get(key);
+    if (bucket) {
+      bucket.push(system);
+    } else {
+      grid.set(key, [system]);
+    }
+  });
+
+  return (system: SolarSystem): SolarSystem[] => {
+    const [cx, cy, cz] = cellOf(system);
+    const result: SolarSystem[] = [];
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (let z = cz - 1; z <= cz + 1; z++) {
+          const bucket = grid.get(`${x},${y},${z}`);
+          if (bucket) result.push(...bucket);
+        }
+      }
+    }
+    return result;
+  };
+}
+
+function getHopCost(distanceLightYears: number, fatigueModel: JumpFatigueModel): number {
+  if (fatigueModel === 'lightyears') {
+    return distanceLightYears + JUMP_TIE_BREAK_WEIGHT;
+  }
+  return JUMP_COUNT_WEIGHT + distanceLightYears;
+}
+
+/**
+ * 规划旗舰跳跃路线（多跳诱导链）
+ *
+ * @param systems 参与寻路的星系（通常为已过滤的星系）
+ * @param fromId 起点星系ID（不受安全等级限制）
+ * @param toId 终点星系ID
+ * @param options 跳跃选项
+ * @returns 途经星系与每一跳的距离，找不到路线时返回 null
+ */
+export function findJumpRoute(
+  systems: SolarSystem[],
+  fromId: number,
+  toId: number,
+  options: JumpRouteOptions,
+): JumpRouteSearchResult | null {
+  const { rangeLightYears } = options;
+  if (!Number.isFinite(rangeLightYears) || rangeLightYears <= 0) {
+    return null;
+  }
+
+  const systemMap = new Map(systems.map((system) => [system._key, system]));
+  const origin = systemMap.get(fromId);
+  const destination = systemMap.get(toId);
+  if (!origin || !destination) {
+    return null;
+  }
+  if (fromId === toId) {
+    return { systemIds: [fromId], hops: [] };
+  }
+
+  const fatigueModel = options.fatigueModel ?? 'jumps';
+  const avoidHighsec = options.avoidHighsec !== false;
+  const avoidSystemIds = new Set(options.avoidSystemIds ?? []);
+
+  // 跳跃落点：非高安（可选）、安全等级有效且未被规避
+  const isValidLanding = (system: SolarSystem) => {
+    if (system._key === toId) return true;
+    if (avoidSystemIds.has(system._key)) return false;
+    if (!avoidHighsec) return true;
+    return Number.isFinite(system.securityStatus) && system.securityStatus < HIGHSEC_SECURITY_THRESHOLD;
+  };
+  if (avoidHighsec && !(destination.securityStatus < HIGHSEC_SECURITY_THRESHOLD)) {
+    return null;
+  }
+
+  const landings = systems.filter(isValidLanding);
+  const rangeMeters = rangeLightYears * JUMP_DRIVE_LIGHTYEAR_IN_METERS;
+  const getNearbySystems = buildSpatialGrid(landings, rangeMeters);
+
+  const costs = new Map<number, number>([[fromId, 0]]);
+  const previous = new Map<number, { systemId: number; distanceLightYears: number }>();
+  const heap = new MinHeap();
+  heap.push(fromId, 0);
+
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.cost > (costs.get(current.id) ?? Infinity)) continue;
+    if (current.id === toId) break;
+
+    const currentSystem = systemMap.get(current.id)!;
+    for (const candidate of getNearbySystems(currentSystem)) {
+      if (candidate._key === current.id) continue;
+      const distanceLightYears = getLightYearDistance(currentSystem, candidate);
+      if (distanceLightYears > rangeLightYears) continue;
+      const nextCost = current.cost + getHopCost(distanceLightYears, fatigueModel);
+      if (nextCost < (costs.get(candidate._key) ?? Infinity)) {
+        costs.set(candidate._key, nextCost);
+        previous.set(candidate._key, { systemId: current.id, distanceLightYears });
+        heap.push(candidate._key, nextCost);
+      }
+    }
+  }
+
+  if (!previous.has(toId)) {
+    return null;
+  }
+
+  const systemIds = [toId];
+  const hops: JumpRouteHop[] = [];
+  let cursor = toId;
+  while (cursor !== fromId) {
+    const step = previous.get(cursor)!;
+    hops.push({ fromSystemId: step.systemId, toSystemId: cursor, distanceLightYears: step.distanceLightYears });
+    systemIds.push(step.systemId);
+    cursor = step.systemId;
+  }
+  return { systemIds: systemIds.reverse(), hops: hops.reverse() };
+}
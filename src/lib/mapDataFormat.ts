@@ -0,0 +1,405 @@
+import type { CompactIdLists, CompactMapData, CompactMapDataLoadOptions, MapData } from './types';
+
+/**
+ * 紧凑地图数据格式
+ *
+ * 小端序，40 字节文件头之后依次为字符串表、星系、星门、星域、星座各列，每列按 8 字节对齐：
+ *
+ * | 偏移 | 类型     | 内容                             |
+ * | ---- | -------- | -------------------------------- |
+ * | 0    | 4 字节   | 魔数 "EVEM"                      |
+ * | 4    | uint16   | 格式版本                         |
+ * | 6    | uint16   | 语言数（字符串表前几项为语言代码） |
+ * | 8    | uint32   | 星系数                           |
+ * | 12   | uint32   | 星门数                           |
+ * | 16   | uint32   | 星域数                           |
+ * | 20   | uint32   | 星座数                           |
+ * | 24   | uint32   | 字符串数                         |
+ * | 28   | uint32   | 字符串 UTF-8 总字节数            |
+ * | 32   | uint32   | 星域所含星座 ID 总数             |
+ * | 36   | uint32   | 星座所含星系 ID 总数             |
+ *
+ * 虫洞等级列（systems / regions / constellations 的 wormholeClassIds）为 int32，-1 表示缺失，
+ * 分别位于星系名称列、星域所含星座 ID 列、星座所含星系 ID 列之后（版本 2 起）。
+ */
+
+/** 数据格式版本号，格式不兼容变更时递增 */
+export const MAP_DATA_FORMAT_VERSION = 2;
+
+const MAGIC = 'EVEM';
+const HEADER_SIZE = 40;
+const SECTION_ALIGNMENT = 8;
+
+type TypedArray = Int32Array | Uint32Array | Float32Array | Float64Array | Uint8Array;
+type TypedArrayConstructor<T extends TypedArray> = {
+  new (buffer: ArrayBuffer, byteOffset: number, length: number): T;
+  readonly BYTES_PER_ELEMENT: number;
+};
+
+function align(offset: number): number {
+  return Math.ceil(offset / SECTION_ALIGNMENT) * SECTION_ALIGNMENT;
+}
+
+// 各列直接以类型化数组视图读取，要求宿主为小端序（所有主流平台均是）
+function isLittleEndian(): boolean {
+  return new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+}
+
+/**
+ * 将地图数据编码为紧凑二进制格式
+ *
+ * @param data 地图数据
+ * @param locales 保留的名称语言，默认为数据中出现的全部语言
+ */
+export function encodeMapData(data: MapData, locales?: string[]): ArrayBuffer {
+  const { systems, stargates, regions, constellations } = data;
+  const namedRecords = [...systems, ...regions, ...constellations];
+  const localeList =
+    locales ?? Array.from(new Set(namedRecords.flatMap((record) => Object.keys(record.name))));
+
+  // 字符串表（去重），前 localeList.length 项为语言代码
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const addString = (value: string | undefined): number => {
+    if (!value) return -1;
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+  localeList.forEach((locale) => {
+    stringIndex.set(locale, strings.length);
+    strings.push(locale);
+  });
+
+  const encodeNames = (records: Array<{ name: { [key: string]: string } }>): Int32Array => {
+    const names = new Int32Array(records.length * localeList.length);
+    records.forEach((record, i) => {
+      localeList.forEach((locale, j) => {
+        names[i * localeList.length + j] = addString(record.name[locale]);
+      });
+    });
+    return names;
+  };
+
+  const encodePositions = (records: Array<{ position: { x: number; y: number; z: number } }>): Float32Array => {
+    const positions = new Float32Array(records.length * 3);
+    records.forEach(({ position }, i) => {
+      positions[i * 3] = position.x;
+      positions[i * 3 + 1] = position.y;
+      positions[i * 3 + 2] = position.z;
+    });
+    return positions;
+  };
+
+  const encodeIdLists = (lists: number[][]): CompactIdLists => {
+    const offsets = new Uint32Array(lists.length + 1);
+    lists.forEach((list, i) => {
+      offsets[i + 1] = offsets[i] + list.length;
+    });
+    return { offsets, ids: Int32Array.from(lists.flat()) };
+  };
+
+  const systemNames = encodeNames(systems);
+  const regionNames = encodeNames(regions);
+  const constellationNames = encodeNames(constellations);
+  const securityClasses = Int32Array.from(systems, (system) => addString(system.securityClass));
+  const regionConstellationIds = encodeIdLists(regions.map((region) => region.constellationIDs ?? []));
+  const constellationSystemIds = encodeIdLists(constellations.map((constellation) => constellation.solarSystemIDs ?? []));
+  const encodeWormholeClasses = (records: Array<{ wormholeClassID?: number }>): Int32Array =>
+    Int32Array.from(records, (record) => record.wormholeClassID ?? -1);
+
+  const encoder = new TextEncoder();
+  const encodedStrings = strings.map((value) => encoder.encode(value));
+  const stringOffsets = new Uint32Array(strings.length + 1);
+  encodedStrings.forEach((bytes, i) => {
+    stringOffsets[i + 1] = stringOffsets[i] + bytes.length;
+  });
+  const stringBytes = new Uint8Array(stringOffsets[strings.length]);
+  encodedStrings.forEach((bytes, i) => stringBytes.set(bytes, stringOffsets[i]));
+
+  // 顺序需与 decodeMapData 一致
+  const sections: TypedArray[] = [
+    stringOffsets,
+    stringBytes,
+    Int32Array.from(systems, (system) => system._key),
+    encodePositions(systems),
+    Int32Array.from(systems, (system) => system.regionID),
+    Int32Array.from(systems, (system) => system.constellationID),
+    Float64Array.from(systems, (system) => system.securityStatus),
+    securityClasses,
+    systemNames,
+    encodeWormholeClasses(systems),
+    Int32Array.from(stargates, (stargate) => stargate._key),
+    Int32Array.from(stargates, (stargate) => stargate.solarSystemID),
+    Int32Array.from(stargates, (stargate) => stargate.destination.solarSystemID),
+    Int32Array.from(stargates, (stargate) => stargate.destination.stargateID),
+    Int32Array.from(stargates, (stargate) => stargate.typeID),
+    encodePositions(stargates),
+    Int32Array.from(regions, (region) => region._key),
+    encodePositions(regions),
+    regionNames,
+    regionConstellationIds.offsets,
+    regionConstellationIds.ids,
+    encodeWormholeClasses(regions),
+    Int32Array.from(constellations, (constellation) => constellation._key),
+    encodePositions(constellations),
+    Int32Array.from(constellations, (constellation) => constellation.regionID),
+    constellationNames,
+    constellationSystemIds.offsets,
+    constellationSystemIds.ids,
+    encodeWormholeClasses(constellations),
+  ];
+
+  const byteLength = sections.reduce((offset, section) => align(offset) + section.byteLength, HEADER_SIZE);
+  const buffer = new ArrayBuffer(align(byteLength));
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) {
+    view.setUint8(i, MAGIC.charCodeAt(i));
+  }
+  view.setUint16(4, MAP_DATA_FORMAT_VERSION, true);
+  view.setUint16(6, localeList.length, true);
+  view.setUint32(8, systems.length, true);
+  view.setUint32(12, stargates.length, true);
+  view.setUint32(16, regions.length, true);
+  view.setUint32(20, constellations.length, true);
+  view.setUint32(24, strings.length, true);
+  view.setUint32(28, stringBytes.length, true);
+  view.setUint32(32, regionConstellationIds.ids.length, true);
+  view.setUint32(36, constellationSystemIds.ids.length, true);
+
+  let offset = HEADER_SIZE;
+  sections.forEach((section) => {
+    offset = align(offset);
+    bytes.set(new Uint8Array(section.buffer, section.byteOffset, section.byteLength), offset);
+    offset += section.byteLength;
+  });
+
+  return buffer;
+}
+
+/**
+ * 解码紧凑二进制地图数据
+ *
+ * 数值列直接作为 buffer 上的类型化数组视图返回，不复制数据
+ *
+ * @throws 魔数不匹配、版本不支持或数据被截断时抛出错误
+ */
+export function decodeMapData(buffer: ArrayBuffer): CompactMapData {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new Error('Invalid map data: file is too short');
+  }
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, MAGIC.length));
+  if (magic !== MAGIC) {
+    throw new Error('Invalid map data: bad magic number');
+  }
+  const version = view.getUint16(4, true);
+  if (version !== MAP_DATA_FORMAT_VERSION) {
+    throw new Error(`Unsupported map data version ${version} (expected ${MAP_DATA_FORMAT_VERSION})`);
+  }
+  if (!isLittleEndian()) {
+    throw new Error('Map data can only be decoded on little-endian platforms');
+  }
+
+  const localeCount = view.getUint16(6, true);
+  const systemCount = view.getUint32(8, true);
+  const stargateCount = view.getUint32(12, true);
+  const regionCount = view.getUint32(16, true);
+  const constellationCount = view.getUint32(20, true);
+  const stringCount = view.getUint32(24, true);
+  const stringByteLength = view.getUint32(28, true);
+  const regionConstellationIdCount = view.getUint32(32, true);
+  const constellationSystemIdCount = view.getUint32(36, true);
+
+  let offset = HEADER_SIZE;
+  const read = <T extends TypedArray>(Type: TypedArrayConstructor<T>, length: number): T => {
+    offset = align(offset);
+    const end = offset + length * Type.BYTES_PER_ELEMENT;
+    if (end > buffer.byteLength) {
+      throw new Error('Invalid map data: unexpected end of file');
+    }
+    const array = new Type(buffer, offset, length);
+    offset = end;
+    return array;
+  };
+
+  const stringOffsets = read(Uint32Array, stringCount + 1);
+  const stringBytes = read(Uint8Array, stringByteLength);
+  const decoder = new TextDecoder();
+  const strings = Array.from({ length: stringCount }, (_, i) =>
+    decoder.decode(stringBytes.subarray(stringOffsets[i], stringOffsets[i + 1])),
+  );
+
+  const systems = {
+    ids: read(Int32Array, systemCount),
+    positions: read(Float32Array, systemCount * 3),
+    regionIds: read(Int32Array, systemCount),
+    constellationIds: read(Int32Array, systemCount),
+    securityStatus: read(Float64Array, systemCount),
+    securityClasses: read(Int32Array, systemCount),
+    names: read(Int32Array, systemCount * localeCount),
+    wormholeClassIds: read(Int32Array, systemCount),
+  };
+  const stargates = {
+    ids: read(Int32Array, stargateCount),
+    systemIds: read(Int32Array, stargateCount),
+    destinationSystemIds: read(Int32Array, stargateCount),
+    destinationStargateIds: read(Int32Array, stargateCount),
+    typeIds: read(Int32Array, stargateCount),
+    positions: read(Float32Array, stargateCount * 3),
+  };
+  const regions = {
+    ids: read(Int32Array, regionCount),
+    positions: read(Float32Array, regionCount * 3),
+    names: read(Int32Array, regionCount * localeCount),
+    constellationIds: {
+      offsets: read(Uint32Array, regionCount + 1),
+      ids: read(Int32Array, regionConstellationIdCount),
+    },
+    wormholeClassIds: read(Int32Array, regionCount),
+  };
+  const constellations = {
+    ids: read(Int32Array, constellationCount),
+    positions: read(Float32Array, constellationCount * 3),
+    regionIds: read(Int32Array, constellationCount),
+    names: read(Int32Array, constellationCount * localeCount),
+    systemIds: {
+      offsets: read(Uint32Array, constellationCount + 1),
+      ids: read(Int32Array, constellationSystemIdCount),
+    },
+    wormholeClassIds: read(Int32Array, constellationCount),
+  };
+
+  return {
+    version,
+    locales: strings.slice(0, localeCount),
+    strings,
+    systems,
+    stargates,
+    regions,
+    constellations,
+  };
+}
+
+/**
+ * 将紧凑地图数据展开为 EveMap3D 使用的对象数组
+ */
+export function expandMapData(data: CompactMapData): MapData {
+  const { locales, strings } = data;
+
+  const getName = (names: Int32Array, index: number): { [key: string]: string } => {
+    const name: { [key: string]: string } = {};
+    locales.forEach((locale, j) => {
+      const stringIndex = names[index * locales.length + j];
+      if (stringIndex >= 0) name[locale] = strings[stringIndex];
+    });
+    return name;
+  };
+  const getPosition = (positions: Float32Array, index: number) => ({
+    x: positions[index * 3],
+    y: positions[index * 3 + 1],
+    z: positions[index * 3 + 2],
+  });
+  const getIds = (lists: CompactIdLists, index: number): number[] =>
+    Array.from(lists.ids.subarray(lists.offsets[index], lists.offsets[index + 1]));
+  const getWormholeClass = (classIds: Int32Array, index: number) =>
+    classIds[index] >= 0 ? { wormholeClassID: classIds[index] } : {};
+
+  const { systems, stargates, regions, constellations } = data;
+  return {
+    systems: Array.from(systems.ids, (id, i) => {
+      const securityClass = systems.securityClasses[i];
+      return {
+        _key: id,
+        name: getName(systems.names, i),
+        position: getPosition(systems.positions, i),
+        regionID: systems.regionIds[i],
+        constellationID: systems.constellationIds[i],
+        securityStatus: systems.securityStatus[i],
+        ...(securityClass >= 0 ? { securityClass: strings[securityClass] } : {}),
+        ...getWormholeClass(systems.wormholeClassIds, i),
+      };
+    }),
+    stargates: Array.from(stargates.ids, (id, i) => ({
+      _key: id,
+      solarSystemID: stargates.systemIds[i],
+      destination: {
+        solarSystemID: stargates.destinationSystemIds[i],
+        stargateID: stargates.destinationStargateIds[i],
+      },
+      position: getPosition(stargates.positions, i),
+      typeID: stargates.typeIds[i],
+    })),
+    regions: Array.from(regions.ids, (id, i) => ({
+      _key: id,
+      name: getName(regions.names, i),
+      position: getPosition(regions.positions, i),
+      constellationIDs: getIds(regions.constellationIds, i),
+      ...getWormholeClass(regions.wormholeClassIds, i),
+    })),
+    constellations: Array.from(constellations.ids, (id, i) => ({
+      _key: id,
+      name: getName(constellations.names, i),
+      position: getPosition(constellations.positions, i),
+      regionID: constellations.regionIds[i],
+      solarSystemIDs: getIds(constellations.systemIds, i),
+      ...getWormholeClass(constellations.wormholeClassIds, i),
+    })),
+  };
+}
+
+/**
+ * 按块读取响应体，避免先生成整段文本再解析
+ *
+ * @param onProgress 每读到一块数据时调用；totalBytes 取自 Content-Length（可能是压缩后的大小），缺失时为 undefined
+ */
+export async function readResponseBuffer(
+  response: Response,
+  onProgress?: (loadedBytes: number, totalBytes: number | undefined) => void,
+): Promise<ArrayBuffer> {
+  const totalBytes = Number(response.headers.get('content-length')) || undefined;
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress?.(buffer.byteLength, totalBytes);
+    return buffer;
+  }
+
+  // Content-Length 为压缩后大小时只作为初始容量，不足时扩容
+  let bytes = new Uint8Array(totalBytes ?? 1 << 20);
+  let length = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (length + value.length > bytes.length) {
+      const grown = new Uint8Array(Math.max(bytes.length * 2, length + value.length));
+      grown.set(bytes.subarray(0, length));
+      bytes = grown;
+    }
+    bytes.set(value, length);
+    length += value.length;
+    onProgress?.(length, totalBytes);
+  }
+  return length === bytes.length ? bytes.buffer : bytes.buffer.slice(0, length);
+}
+
+/**
+ * 加载并解码优化脚本以 `--format=binary` 生成的紧凑地图数据
+ *
+ * @param url 数据文件地址（如 `/data/mapData.bin`）
+ * @throws 请求失败或数据无法解码时抛出错误
+ */
+export async function loadCompactMapData(url: string, options: CompactMapDataLoadOptions = {}): Promise<CompactMapData> {
+  const fetchImpl = options.fetch ?? fetch;
+  const response = await fetchImpl(url, { signal: options.signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load map data from ${url}: HTTP ${response.status}`);
+  }
+  return decodeMapData(await readResponseBuffer(response));
+}
@@ -0,0 +1,238 @@
+import type {
+  Constellation,
+  MapData,
+  MapDataIssue,
+  MapDataLoadOptions,
+  MapDataLoadResult,
+  Region,
+  SolarSystem,
+  Star,
+  Stargate,
+} from './types';
+import { decodeMapData, expandMapData, readResponseBuffer } from './mapDataFormat';
+
+const FILES = {
+  systems: 'mapSolarSystems.jsonl',
+  stargates: 'mapStargates.jsonl',
+  regions: 'mapRegions.jsonl',
+  constellations: 'mapConstellations.jsonl',
+  stars: 'mapStars.jsonl',
+  binary: 'mapData.bin',
+};
+
+type FieldChecks = Record<string, (value: unknown) => boolean>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isId = (value: unknown) => Number.isInteger(value);
+const isOptionalId = (value: unknown) => value === undefined || isId(value);
+const isIdList = (value: unknown) => Array.isArray(value) && value.every(isId);
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isName = (value: unknown) => isObject(value) && Object.values(value).every((name) => typeof name === 'string');
+const isPosition = (value: unknown) => isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+// 与 types.ts 中的 SolarSystem / Stargate / Region / Constellation / Star 对应
+const SOLAR_SYSTEM_FIELDS: FieldChecks = {
+  _key: isId,
+  name: isName,
+  position: isPosition,
+  regionID: isId,
+  constellationID: isId,
+  securityStatus: isNumber,
+  securityClass: isOptionalString,
+  wormholeClassID: isOptionalId,
+};
+const STARGATE_FIELDS: FieldChecks = {
+  _key: isId,
+  solarSystemID: isId,
+  destination: (value) => isObject(value) && isId(value.solarSystemID) && isId(value.stargateID),
+  position: isPosition,
+  typeID: isId,
+};
+const REGION_FIELDS: FieldChecks = {
+  _key: isId,
+  name: isName,
+  position: isPosition,
+  constellationIDs: isIdList,
+  wormholeClassID: isOptionalId,
+};
+const CONSTELLATION_FIELDS: FieldChecks = {
+  _key: isId,
+  name: isName,
+  position: isPosition,
+  regionID: isId,
+  solarSystemIDs: isIdList,
+  wormholeClassID: isOptionalId,
+};
+const STAR_FIELDS: FieldChecks = {
+  _key: isId,
+  solarSystemID: isId,
+  spectralClass: (value) => typeof value === 'string',
+  temperature: isNumber,
+  luminosity: isNumber,
+  radius: isNumber,
+};
+
+/**
+ * 校验记录字段，返回第一个问题的描述
+ */
+function validateRecord(record: unknown, fields: FieldChecks): string | null {
+  if (!isObject(record)) return 'record is not an object';
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check(record[field])) {
+      return `invalid or missing field "${field}"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 逐行解析 JSONL，跳过无法解析或不符合类型的行并记录问题
+ */
+function parseRecords<T>(text: string, file: string, fields: FieldChecks, issues: MapDataIssue[]): T[] {
+  const records: T[] = [];
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      issues.push({ type: 'invalidRecord', file, line: index + 1, message: `Invalid JSON: ${(error as Error).message}` });
+      return;
+    }
+    const problem = validateRecord(record, fields);
+    if (problem) {
+      const id = isObject(record) && isId(record._key) ? (record._key as number) : undefined;
+      issues.push({ type: 'invalidRecord', file, line: index + 1, id, message: problem });
+      return;
+    }
+    records.push(record as T);
+  });
+  return records;
+}
+
+/**
+ * 检查记录之间的引用：星门两端星系、星系与星座所属星域、星系所属星座、恒星所在星系
+ */
+function checkReferences(
+  data: MapData & { stars: Star[] },
+  files: { systems: string; stargates: string; constellations: string; stars: string },
+  options: { regions: boolean; constellations: boolean },
+  issues: MapDataIssue[],
+): void {
+  const systemIds = new Set(data.systems.map((system) => system._key));
+  const stargateIds = new Set(data.stargates.map((stargate) => stargate._key));
+  const regionIds = new Set(data.regions.map((region) => region._key));
+  const constellationIds = new Set(data.constellations.map((constellation) => constellation._key));
+
+  data.stargates.forEach(({ _key: id, solarSystemID, destination }) => {
+    const file = files.stargates;
+    if (!systemIds.has(solarSystemID)) {
+      issues.push({ type: 'danglingStargate', file, id, message: `Stargate ${id} is in unknown system ${solarSystemID}` });
+    }
+    if (!systemIds.has(destination.solarSystemID)) {
+      issues.push({ type: 'danglingStargate', file, id, message: `Stargate ${id} leads to unknown system ${destination.solarSystemID}` });
+    } else if (!stargateIds.has(destination.stargateID)) {
+      issues.push({ type: 'danglingStargate', file, id, message: `Stargate ${id} leads to unknown stargate ${destination.stargateID}` });
+    }
+  });
+
+  if (options.regions) {
+    data.systems.forEach(({ _key: id, regionID }) => {
+      if (!regionIds.has(regionID)) {
+        issues.push({ type: 'unknownRegion', file: files.systems, id, message: `System ${id} references unknown region ${regionID}` });
+      }
+    });
+    data.constellations.forEach(({ _key: id, regionID }) => {
+      if (!regionIds.has(regionID)) {
+        issues.push({ type: 'unknownRegion', file: files.constellations, id, message: `Constellation ${id} references unknown region ${regionID}` });
+      }
+    });
+  }
+
+  if (options.constellations) {
+    data.systems.forEach(({ _key: id, constellationID }) => {
+      if (!constellationIds.has(constellationID)) {
+        issues.push({
+          type: 'unknownConstellation',
+          file: files.systems,
+          id,
+          message: `System ${id} references unknown constellation ${constellationID}`,
+        });
+      }
+    });
+  }
+
+  data.stars.forEach(({ _key: id, solarSystemID }) => {
+    if (!systemIds.has(solarSystemID)) {
+      issues.push({ type: 'unknownSystem', file: files.stars, id, message: `Star ${id} is in unknown system ${solarSystemID}` });
+    }
+  });
+}
+
+/**
+ * 加载并校验地图数据
+ *
+ * 每条记录都按类型定义校验，不符合的记录会被跳过；校验问题和星门、星域、星座的引用问题
+ * 记录在结果的 issues 中，不会中断加载。请求失败（非 2xx）、被取消或二进制数据无法解码时抛出错误。
+ *
+ * @example
+ * const { systems, stargates, regions, constellations, issues } = await loadMapData({ baseUrl: '/data' });
+ */
+export async function loadMapData(options: MapDataLoadOptions): Promise<MapDataLoadResult> {
+  const { format = 'jsonl', signal, onProgress } = options;
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const loadRegions = format === 'binary' || options.regions !== false;
+  const loadConstellations = format === 'binary' || options.constellations !== false;
+  const issues: MapDataIssue[] = [];
+
+  const totalFiles = (format === 'binary' ? 1 : 2 + Number(loadRegions) + Number(loadConstellations)) + Number(!!options.stars);
+  let completedFiles = 0;
+
+  const fetchFile = async (file: string): Promise<ArrayBuffer> => {
+    const url = `${baseUrl}/${file}`;
+    const response = await fetchImpl(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: HTTP ${response.status}`);
+    }
+    let lastTotalBytes: number | undefined;
+    const buffer = await readResponseBuffer(response, (loadedBytes, totalBytes) => {
+      lastTotalBytes = totalBytes;
+      onProgress?.({ file, loadedBytes, totalBytes, completedFiles, totalFiles });
+    });
+    // 自定义 fetch 可能不支持 signal
+    signal?.throwIfAborted();
+    completedFiles++;
+    onProgress?.({ file, loadedBytes: buffer.byteLength, totalBytes: lastTotalBytes, completedFiles, totalFiles });
+    return buffer;
+  };
+
+  const decoder = new TextDecoder();
+  const loadRecords = async <T>(file: string, fields: FieldChecks): Promise<T[]> =>
+    parseRecords<T>(decoder.decode(await fetchFile(file)), file, fields, issues);
+  // 恒星数据在两种格式下都是单独的 JSONL 文件
+  const starsPromise = options.stars ? loadRecords<Star>(FILES.stars, STAR_FIELDS) : Promise.resolve<Star[]>([]);
+
+  const dataPromise: Promise<MapData> =
+    format === 'binary'
+      ? fetchFile(FILES.binary).then((buffer) => expandMapData(decodeMapData(buffer)))
+      : Promise.all([
+          loadRecords<SolarSystem>(FILES.systems, SOLAR_SYSTEM_FIELDS),
+          loadRecords<Stargate>(FILES.stargates, STARGATE_FIELDS),
+          loadRegions ? loadRecords<Region>(FILES.regions, REGION_FIELDS) : [],
+          loadConstellations ? loadRecords<Constellation>(FILES.constellations, CONSTELLATION_FIELDS) : [],
+        ]).then(([systems, stargates, regions, constellations]) => ({ systems, stargates, regions, constellations }));
+  const [data, stars] = await Promise.all([dataPromise, starsPromise]);
+
+  const files =
+    format === 'binary'
+      ? { systems: FILES.binary, stargates: FILES.binary, constellations: FILES.binary, stars: FILES.stars }
+      : FILES;
+  checkReferences({ ...data, stars }, files, { regions: loadRegions, constellations: loadConstellations }, issues);
+
+  return { ...data, stars, issues };
+}
@@ -0,0 +1,117 @@
+import type { Constellation, MapSearchOptions, MapSearchResult, Region, SolarSystem } from './types';
+
+// 匹配得分档位：完全匹配 > 前缀 > 单词前缀 > 子串 > 模糊（子序列）
+const EXACT_SCORE = 1000;
+const PREFIX_SCORE = 800;
+const WORD_PREFIX_SCORE = 600;
+const SUBSTRING_SCORE = 400;
+const FUZZY_SCORE = 200;
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * 计算单个名称与查询的匹配得分，不匹配时返回 0
+ * 同一档位内，查询覆盖名称的比例越高得分越高
+ */
+function scoreName(name: string, query: string): number {
+  const text = normalizeText(name);
+  if (!text) return 0;
+
+  const coverage = query.length / text.length;
+  if (text === query) {
+    return EXACT_SCORE;
+  }
+  if (text.startsWith(query)) {
+    return PREFIX_SCORE + coverage * 100;
+  }
+  if (text.split(/[\s\-_()]+/).some((word) => word.startsWith(query))) {
+    return WORD_PREFIX_SCORE + coverage * 100;
+  }
+  if (text.includes(query)) {
+    return SUBSTRING_SCORE + coverage * 100;
+  }
+
+  // 模糊匹配：查询字符按顺序出现在名称中（忽略空格与连字符），跨度越小得分越高
+  const compactQuery = query.replace(/[\s\-_]+/g, '');
+  if (!compactQuery) return 0;
+  let queryIndex = 0;
+  let firstMatch = -1;
+  let lastMatch = -1;
+  for (let index = 0; index < text.length && queryIndex < compactQuery.length; index++) {
+    if (text[index] === compactQuery[queryIndex]) {
+      if (firstMatch === -1) firstMatch = index;
+      lastMatch = index;
+      queryIndex++;
+    }
+  }
+  if (queryIndex < compactQuery.length) {
+    return 0;
+  }
+  return FUZZY_SCORE * (compactQuery.length / (lastMatch - firstMatch + 1));
+}
+
+/**
+ * 在名称的各语言版本中取最高得分
+ */
+function matchNames(names: { [key: string]: string }, query: string): { score: number; matchedName: string } | null {
+  let best: { score: number; matchedName: string } | null = null;
+  for (const name of Object.values(names)) {
+    if (!name) continue;
+    const score = scoreName(name, query);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { score, matchedName: name };
+    }
+  }
+  return best;
+}
+
+/**
+ * 按名称（zh / en）或 ID 搜索星系、星域与星座
+ * 支持完全匹配、前缀匹配、子串匹配与模糊匹配（如 "1dq" 匹配 "1DQ1-A"）
+ *
+ * @param query 查询字符串
+ * @param data 参与搜索的星系、星域与星座
+ * @param options 搜索选项
+ * @returns 按得分从高到低排列的结果，查询为空时返回空数组
+ */
+export function searchMap(
+  query: string,
+  data: { systems?: SolarSystem[]; regions?: Region[]; constellations?: Constellation[] },
+  options: MapSearchOptions = {},
+): MapSearchResult[] {
+  const normalizedQuery = normalizeText(query);
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  const limit = options.limit ?? 10;
+  const types = options.types ?? ['system', 'region', 'constellation'];
+  const numericId = /^\d+$/.test(normalizedQuery) ? Number(normalizedQuery) : null;
+  const results: MapSearchResult[] = [];
+
+  const collect = (type: MapSearchResult['type'], id: number, names: { [key: string]: string }) => {
+    if (id === numericId) {
+      results.push({ type, id, name: names, matchedName: String(id), score: EXACT_SCORE });
+      return;
+    }
+    const match = matchNames(names, normalizedQuery);
+    if (match) {
+      results.push({ type, id, name: names, matchedName: match.matchedName, score: match.score });
+    }
+  };
+
+  if (types.includes('system')) {
+    data.systems?.forEach((system) => collect('system', system._key, system.name));
+  }
+  if (types.includes('region')) {
+    data.regions?.forEach((region) => collect('region', region._key, region.name));
+  }
+  if (types.includes('constellation')) {
+    data.constellations?.forEach((constellation) => collect('constellation', constellation._key, constellation.name));
+  }
+
+  results.sort((a, b) => b.score - a.score || a.matchedName.length - b.matchedName.length || a.matchedName.localeCompare(b.matchedName));
+  return results.slice(0, Math.max(limit, 0));
+}
@@ -0,0 +1,131 @@
+import type { JumpDriveConfig, Language, MapViewState } from './types';
+import { LANGUAGES } from './i18n';
+
+/** 序列化格式版本号，格式不兼容变更时递增 */
+export const MAP_VIEW_STATE_VERSION = 1;
+
+// 坐标量级约 1e17，保留 7 位有效数字即可还原视角，并省略指数中的 '+' 以免被当作空格解码
+function formatNumber(value: number): string {
+  if (Number.isInteger(value) && Math.abs(value) < 1e9) {
+    return String(value);
+  }
+  const text = value.toPrecision(7).replace('e+', 'e');
+  // 去掉小数部分末尾的 0
+  return text.includes('.') ? text.replace(/\.?0+(?=e|$)/, '') : text;
+}
+
+function parseNumberList(value: string, length?: number): number[] | null {
+  const numbers = value.split(',').filter(Boolean).map(Number);
+  if (numbers.some((number) => !Number.isFinite(number))) return null;
+  if (length !== undefined && numbers.length !== length) return null;
+  return numbers;
+}
+
+function parseId(value: string | undefined): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === '') return null;
+  const id = Number(value);
+  return Number.isInteger(id) ? id : undefined;
+}
+
+/**
+ * 将地图视图状态编码为适合放入 URL（如 location.hash）的字符串
+ *
+ * 格式为 `key=value` 以 `&` 连接：v 版本、cam 相机位置与目标、sel 选中星系、reg 高亮星域、
+ * con 高亮星座、hl 高亮星系、lang 语言、jd 跳跃引擎配置（JSON）
+ */
+export function encodeMapViewState(state: MapViewState): string {
+  const parts = [`v=${MAP_VIEW_STATE_VERSION}`];
+
+  if (state.camera) {
+    parts.push(`cam=${[...state.camera.position, ...state.camera.target].map(formatNumber).join(',')}`);
+  }
+  if (state.selectedSystemId != null) {
+    parts.push(`sel=${state.selectedSystemId}`);
+  }
+  if (state.highlightedRegionId != null) {
+    parts.push(`reg=${state.highlightedRegionId}`);
+  }
+  if (state.highlightedConstellationId != null) {
+    parts.push(`con=${state.highlightedConstellationId}`);
+  }
+  if (state.highlightedSystemIds && state.highlightedSystemIds.length > 0) {
+    parts.push(`hl=${state.highlightedSystemIds.join(',')}`);
+  }
+  if (state.language) {
+    parts.push(`lang=${state.language}`);
+  }
+  if (state.jumpDriveConfig) {
+    parts.push(`jd=${encodeURIComponent(JSON.stringify(state.jumpDriveConfig))}`);
+  }
+
+  return parts.join('&');
+}
+
+/**
+ * 解析 encodeMapViewState 生成的字符串（允许带前导 '#' 或 '?'）
+ *
+ * 无法识别的字段会被忽略，单个字段格式错误时只丢弃该字段
+ *
+ * @returns 版本不匹配或不是地图状态字符串时返回 null
+ */
+export function decodeMapViewState(value: string): MapViewState | null {
+  const params = new Map<string, string>();
+  value
+    .replace(/^[#?]/, '')
+    .split('&')
+    .forEach((part) => {
+      const separatorIndex = part.indexOf('=');
+      if (separatorIndex <= 0) return;
+      try {
+        params.set(part.slice(0, separatorIndex), decodeURIComponent(part.slice(separatorIndex + 1)));
+      } catch {
+        // 非法的百分号编码，忽略该字段
+      }
+    });
+
+  if (Number(params.get('v')) !== MAP_VIEW_STATE_VERSION) {
+    return null;
+  }
+
+  const state: MapViewState = { version: MAP_VIEW_STATE_VERSION };
+
+  const camera = params.has('cam') ? parseNumberList(params.get('cam')!, 6) : null;
+  if (camera) {
+    state.camera = {
+      position: [camera[0], camera[1], camera[2]],
+      target: [camera[3], camera[4], camera[5]],
+    };
+  }
+
+  const selectedSystemId = parseId(params.get('sel'));
+  if (selectedSystemId !== undefined) state.selectedSystemId = selectedSystemId;
+  const highlightedRegionId = parseId(params.get('reg'));
+  if (highlightedRegionId !== undefined) state.highlightedRegionId = highlightedRegionId;
+  const highlightedConstellationId = parseId(params.get('con'));
+  if (highlightedConstellationId !== undefined) state.highlightedConstellationId = highlightedConstellationId;
+
+  const highlightedSystemIds = params.has('hl') ? parseNumberList(params.get('hl')!) : null;
+  if (highlightedSystemIds) {
+    state.highlightedSystemIds = highlightedSystemIds.filter((id) => Number.isInteger(id));
+  }
+
+  const language = params.get('lang') as Language | undefined;
+  if (language && LANGUAGES.includes(language)) {
+    state.language = language;
+  }
+
+  if (params.has('jd')) {
+    try {
+      const jumpDriveConfig = JSON.parse(params.get('jd')!) as JumpDriveConfig | JumpDriveConfig[];
+      const configs = Array.isArray(jumpDriveConfig) ? jumpDriveConfig : [jumpDriveConfig];
+      if (configs.every((config) => config && typeof config === 'object' && Number.isFinite(config.rangeLightYears))) {
+        state.jumpDriveConfig = jumpDriveConfig;
+      }
+    } catch {
+      // JSON 格式错误，忽略跳跃引擎配置
+    }
+  }
+
+  return state;
+}
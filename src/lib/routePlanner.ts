@@ -0,0 +1,249 @@
+import type { Jumpgate, RouteLeg, RoutePlanOptions, RoutePreference, SolarSystem } from './types';
+import { HIGHSEC_SECURITY_THRESHOLD } from './components/constants';
+
+/**
+ * 星门连接（由 Scene 根据 Stargate.destination 构建）
+ */
+export interface StargateConnection {
+  from: SolarSystem;
+  to: SolarSystem;
+}
+
+/**
+ * 路线图中的一条边
+ */
+interface RouteEdge {
+  to: number;
+  type: RouteLeg['type'];
+  /** 边的基础代价（星门为 1，跳桥默认为 1） */
+  cost: number;
+  /** 燃料消耗（仅跳桥） */
+  fuel: number;
+}
+
+/**
+ * 寻路结果
+ */
+export interface RouteSearchResult {
+  /** 按顺序排列的星系ID（包含起点和终点） */
+  systemIds: number[];
+  /** 每一段的连接方式 */
+  legs: RouteLeg[];
+}
+
+// 偏好不匹配时进入星系的额外代价，保证优先减少不期望的星系数量
+const SECURITY_PENALTY = 10000;
+
+/**
+ * 简单的二叉最小堆，用于 Dijkstra 算法
+ */
+export class MinHeap {
+  private items: Array<{ id: number; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: number, cost: number): void {
+    const items = this.items;
+    items.push({ id, cost });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { id: number; cost: number } | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * 根据星门连接和跳桥构建邻接表
+ * 跳桥按双向处理，enabled 为 false 的跳桥不参与寻路
+ */
+function buildRouteAdjacency(connections: StargateConnection[], jumpgates: Jumpgate[]): Map<number, RouteEdge[]> {
+  const adjacency = new Map<number, RouteEdge[]>();
+  const link = (fromId: number, edge: RouteEdge) => {
+    const edges = adjacency.get(fromId);
+    if (edges) {
+      edges.push(edge);
+    } else {
+      adjacency.set(fromId, [edge]);
+    }
+  };
+  connections.forEach(({ from, to }) => {
+    link(from._key, { to: to._key, type: 'stargate', cost: 1, fuel: 0 });
+    link(to._key, { to: from._key, type: 'stargate', cost: 1, fuel: 0 });
+  });
+  jumpgates.forEach((jumpgate) => {
+    if (jumpgate.enabled === false) return;
+    const cost = Number.isFinite(jumpgate.cost) && jumpgate.cost! >= 0 ? jumpgate.cost! : 1;
+    const fuel = Number.isFinite(jumpgate.fuel) && jumpgate.fuel! >= 0 ? jumpgate.fuel! : 0;
+    link(jumpgate.fromSystemId, { to: jumpgate.toSystemId, type: 'jumpgate', cost, fuel });
+    link(jumpgate.toSystemId, { to: jumpgate.fromSystemId, type: 'jumpgate', cost, fuel });
+  });
+  return adjacency;
+}
+
+/**
+ * 计算进入某个星系时因安全偏好产生的额外代价
+ */
+function getEnterPenalty(system: SolarSystem | undefined, preference: RoutePreference): number {
+  if (!system || preference === 'shortest') {
+    return 0;
+  }
+  const isHighsec = system.securityStatus >= HIGHSEC_SECURITY_THRESHOLD;
+  if (preference === 'safest') {
+    return isHighsec ? 0 : SECURITY_PENALTY;
+  }
+  return isHighsec ? SECURITY_PENALTY : 0;
+}
+
+/**
+ * 在星门（及跳桥）图上规划路线
+ *
+ * @param systems 参与寻路的星系（通常为已过滤的星系）
+ * @param connections 星门连接
+ * @param jumpgates 跳桥（options.useJumpgates 为 false 时忽略）
+ * @param fromId 起点星系ID
+ * @param toId 终点星系ID
+ * @param options 路线选项
+ * @returns 途经星系与每段连接方式，找不到路线时返回 null
+ */
+export function findRoute(
+  systems: SolarSystem[],
+  connections: StargateConnection[],
+  jumpgates: Jumpgate[],
+  fromId: number,
+  toId: number,
+  options: RoutePlanOptions = {},
+): RouteSearchResult | null {
+  const systemMap = new Map(systems.map((system) => [system._key, system]));
+  if (!systemMap.has(fromId) || !systemMap.has(toId)) {
+    return null;
+  }
+  if (fromId === toId) {
+    return { systemIds: [fromId], legs: [] };
+  }
+
+  const preference = options.preference ?? 'shortest';
+  const avoidSystemIds = new Set(options.avoidSystemIds ?? []);
+  const avoidRegionIds = new Set(options.avoidRegionIds ?? []);
+
+  // 起点和终点不受规避规则影响
+  const isAvoided = (systemId: number) => {
+    if (systemId === fromId || systemId === toId) return false;
+    if (avoidSystemIds.has(systemId)) return true;
+    const system = systemMap.get(systemId);
+    return system !== undefined && avoidRegionIds.has(system.regionID);
+  };
+
+  const adjacency = buildRouteAdjacency(connections, options.useJumpgates === false ? [] : jumpgates);
+  const costs = new Map<number, number>([[fromId, 0]]);
+  const previous = new Map<number, { systemId: number; edge: RouteEdge }>();
+  const heap = new MinHeap();
+  heap.push(fromId, 0);
+
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.cost > (costs.get(current.id) ?? Infinity)) continue;
+    if (current.id === toId) break;
+
+    for (const edge of adjacency.get(current.id) ?? []) {
+      if (!systemMap.has(edge.to) || isAvoided(edge.to)) continue;
+      const nextCost = current.cost + edge.cost + getEnterPenalty(systemMap.get(edge.to), preference);
+      if (nextCost < (costs.get(edge.to) ?? Infinity)) {
+        costs.set(edge.to, nextCost);
+        previous.set(edge.to, { systemId: current.id, edge });
+        heap.push(edge.to, nextCost);
+      }
+    }
+  }
+
+  if (!previous.has(toId)) {
+    return null;
+  }
+
+  const systemIds = [toId];
+  const legs: RouteLeg[] = [];
+  let cursor = toId;
+  while (cursor !== fromId) {
+    const step = previous.get(cursor)!;
+    legs.push({ fromSystemId: step.systemId, toSystemId: cursor, type: step.edge.type, fuel: step.edge.fuel });
+    systemIds.push(step.systemId);
+    cursor = step.systemId;
+  }
+  return { systemIds: systemIds.reverse(), legs: legs.reverse() };
+}
+
+/**
+ * 在星门图上从多个起点做广度优先搜索，求 maxJumps 跳以内每个星系到最近起点的跳数
+ *
+ * @param connections 星门连接
+ * @param sourceIds 起点星系ID
+ * @param maxJumps 最大跳数
+ * @returns 星系ID -> 最近的起点及跳数（包含起点自身，跳数为 0）
+ */
+export function findNearbySystems(
+  connections: StargateConnection[],
+  sourceIds: number[],
+  maxJumps: number,
+): Map<number, { sourceId: number; jumps: number }> {
+  const neighbors = new Map<number, number[]>();
+  const link = (fromId: number, toId: number) => {
+    const list = neighbors.get(fromId);
+    if (list) {
+      list.push(toId);
+    } else {
+      neighbors.set(fromId, [toId]);
+    }
+  };
+  connections.forEach(({ from, to }) => {
+    link(from._key, to._key);
+    link(to._key, from._key);
+  });
+
+  const result = new Map<number, { sourceId: number; jumps: number }>();
+  let frontier: number[] = [];
+  sourceIds.forEach((sourceId) => {
+    if (result.has(sourceId)) return;
+    result.set(sourceId, { sourceId, jumps: 0 });
+    frontier.push(sourceId);
+  });
+
+  for (let jumps = 1; jumps <= maxJumps && frontier.length > 0; jumps++) {
+    const next: number[] = [];
+    for (const systemId of frontier) {
+      const { sourceId } = result.get(systemId)!;
+      for (const neighborId of neighbors.get(systemId) ?? []) {
+        if (result.has(neighborId)) continue;
+        result.set(neighborId, { sourceId, jumps });
+        next.push(neighborId);
+      }
+    }
+    frontier = next;
+  }
+  return result;
+}
@@ -1,6 +1,63 @@
 import type React from 'react';
 
-export type Language = 'zh' | 'en';
+/**
+ * 语言（与 SDE 中的本地化名称一致）
+ */
+export type Language = 'zh' | 'en' | 'de' | 'fr' | 'ja' | 'ko' | 'ru' | 'es';
+
+/**
+ * 界面文本字典（菜单、提示框、图例、搜索框），{name} 为占位符
+ */
+export interface LocaleStrings {
+  /** 右键菜单：选择星系（{name} 为星系名称） */
+  selectSystem: string;
+  /** 右键菜单：聚焦到星系 */
+  focusSystem: string;
+  /** 右键菜单：高亮星域（{name} 为星域名称） */
+  highlightRegion: string;
+  /** 右键菜单：聚焦到星域 */
+  focusRegion: string;
+  /** 右键菜单：重置视角 */
+  resetCamera: string;
+  /** 右键菜单：取消选择 */
+  deselect: string;
+  /** 安全等级 */
+  security: string;
+  /** 星系 */
+  system: string;
+  /** 星域 */
+  region: string;
+  /** 星座 */
+  constellation: string;
+  /** 搜索框占位文本 */
+  searchPlaceholder: string;
+  /** 热力图图例标题 */
+  heatmap: string;
+  /** 主权图例标题 */
+  sovereignty: string;
+  /** 势力图例标题 */
+  factions: string;
+  /** 自定义着色图例标题 */
+  legend: string;
+  /** 恒星着色图例标题 */
+  spectralClass: string;
+  /** 虫洞等级图例标题 */
+  wormholeClass: string;
+  /** 图例：其他归属 */
+  other: string;
+  /** 图例：无归属 */
+  unclaimed: string;
+  /** 右键菜单：进入测量模式 */
+  startMeasure: string;
+  /** 右键菜单：从该星系开始测量（{name} 为星系名称） */
+  measureFrom: string;
+  /** 右键菜单：退出测量模式 */
+  exitMeasureMode: string;
+  /** 测量结果：星门跳数（{count} 为跳数） */
+  measureJumps: string;
+  /** 测量结果：星门不连通 */
+  noGateRoute: string;
+}
 
 export interface SolarSystem {
   _key: number;
@@ -10,6 +67,8 @@ export interface SolarSystem {
   constellationID: number;
   securityStatus: number;
   securityClass?: string;
+  /** 虫洞等级（SDE 中的 wormholeClassID，缺失时取所在星座 / 星域的等级） */
+  wormholeClassID?: number;
 }
 
 export interface Region {
@@ -17,6 +76,18 @@ export interface Region {
   name: { [key: string]: string };
   position: { x: number; y: number; z: number };
   constellationIDs: number[];
+  /** 虫洞等级（SDE 中的 wormholeClassID） */
+  wormholeClassID?: number;
+}
+
+export interface Constellation {
+  _key: number;
+  name: { [key: string]: string };
+  position: { x: number; y: number; z: number };
+  regionID: number;
+  solarSystemIDs: number[];
+  /** 虫洞等级（SDE 中的 wormholeClassID） */
+  wormholeClassID?: number;
 }
 
 export interface Stargate {
@@ -30,6 +101,171 @@ export interface Stargate {
   typeID: number;
 }
 
+/**
+ * 恒星数据（优化脚本生成的精简 mapStars.jsonl）
+ */
+export interface Star {
+  _key: number;
+  /** 所在星系ID */
+  solarSystemID: number;
+  /** 光谱型（如 "G2 V"） */
+  spectralClass: string;
+  /** 表面温度（K） */
+  temperature: number;
+  /** 光度（相对值） */
+  luminosity: number;
+  /** 半径（米） */
+  radius: number;
+}
+
+/**
+ * 完整的地图静态数据
+ */
+export interface MapData {
+  systems: SolarSystem[];
+  stargates: Stargate[];
+  regions: Region[];
+  constellations: Constellation[];
+}
+
+/**
+ * 紧凑格式中的变长 ID 列表：第 i 项为 ids.subarray(offsets[i], offsets[i + 1])
+ */
+export interface CompactIdLists {
+  offsets: Uint32Array;
+  ids: Int32Array;
+}
+
+/**
+ * 紧凑（列式）地图数据，由 decodeMapData 解码得到
+ *
+ * 每类数据按字段分列存放，同一下标对应同一条记录；positions 每 3 个数为一组 (x, y, z)，
+ * names 每 locales.length 个数为一组 strings 下标（-1 表示该语言缺失）
+ */
+export interface CompactMapData {
+  /** 数据格式版本 */
+  version: number;
+  /** names 各列对应的语言 */
+  locales: string[];
+  /** 字符串表 */
+  strings: string[];
+  systems: {
+    ids: Int32Array;
+    positions: Float32Array;
+    regionIds: Int32Array;
+    constellationIds: Int32Array;
+    securityStatus: Float64Array;
+    /** securityClass 在 strings 中的下标，-1 表示缺失 */
+    securityClasses: Int32Array;
+    names: Int32Array;
+    /** 虫洞等级，-1 表示缺失 */
+    wormholeClassIds: Int32Array;
+  };
+  stargates: {
+    ids: Int32Array;
+    systemIds: Int32Array;
+    destinationSystemIds: Int32Array;
+    destinationStargateIds: Int32Array;
+    typeIds: Int32Array;
+    positions: Float32Array;
+  };
+  regions: {
+    ids: Int32Array;
+    positions: Float32Array;
+    names: Int32Array;
+    constellationIds: CompactIdLists;
+    /** 虫洞等级，-1 表示缺失 */
+    wormholeClassIds: Int32Array;
+  };
+  constellations: {
+    ids: Int32Array;
+    positions: Float32Array;
+    regionIds: Int32Array;
+    names: Int32Array;
+    systemIds: CompactIdLists;
+    /** 虫洞等级，-1 表示缺失 */
+    wormholeClassIds: Int32Array;
+  };
+}
+
+/**
+ * loadCompactMapData 选项
+ */
+export interface CompactMapDataLoadOptions {
+  /** 自定义 fetch 实现（默认使用全局 fetch） */
+  fetch?: typeof fetch;
+  /** 用于取消请求 */
+  signal?: AbortSignal;
+}
+
+/**
+ * loadMapData 加载进度
+ */
+export interface MapDataLoadProgress {
+  /** 正在加载的文件名 */
+  file: string;
+  /** 该文件已读取的字节数 */
+  loadedBytes: number;
+  /** 该文件的总字节数（取自 Content-Length，可能是压缩后大小；缺失时为 undefined） */
+  totalBytes?: number;
+  /** 已加载完成的文件数 */
+  completedFiles: number;
+  /** 需要加载的文件总数 */
+  totalFiles: number;
+}
+
+/**
+ * loadMapData 发现的数据问题
+ *
+ * - invalidRecord：无法解析或字段不符合类型定义的记录（已跳过）
+ * - danglingStargate：起点或目的地星系不存在的星门
+ * - unknownRegion：引用了不存在星域的星系 / 星座
+ * - unknownConstellation：引用了不存在星座的星系
+ * - unknownSystem：所在星系不存在的恒星
+ */
+export interface MapDataIssue {
+  type: 'invalidRecord' | 'danglingStargate' | 'unknownRegion' | 'unknownConstellation' | 'unknownSystem';
+  /** 出现问题的文件名 */
+  file: string;
+  /** 行号（从 1 开始），仅 JSONL 数据的 invalidRecord 有 */
+  line?: number;
+  /** 相关记录 ID */
+  id?: number;
+  message: string;
+}
+
+/**
+ * loadMapData 选项
+ */
+export interface MapDataLoadOptions {
+  /** 数据文件所在目录的地址（如 `/data`） */
+  baseUrl: string;
+  /** 数据格式：jsonl 为四个 JSONL 文件，binary 为优化脚本生成的 mapData.bin（默认 'jsonl'） */
+  format?: 'jsonl' | 'binary';
+  /** 是否加载星域数据（仅 jsonl，默认 true） */
+  regions?: boolean;
+  /** 是否加载星座数据（仅 jsonl，默认 true） */
+  constellations?: boolean;
+  /** 是否加载恒星数据 mapStars.jsonl（两种格式均为 JSONL 文件，默认 false） */
+  stars?: boolean;
+  /** 自定义 fetch 实现（默认使用全局 fetch），可用于测试或添加请求头 */
+  fetch?: typeof fetch;
+  /** 用于取消加载 */
+  signal?: AbortSignal;
+  /** 加载进度回调 */
+  onProgress?: (progress: MapDataLoadProgress) => void;
+}
+
+/**
+ * loadMapData 结果
+ */
+export interface MapDataLoadResult extends MapData {
+  /** 恒星数据（未加载时为空数组） */
+  stars: Star[];
+  /** 校验发现的问题，为空表示数据完整 */
+  issues: MapDataIssue[];
+}
+
 /**
  * 玩家建造的跳桥连接信息
  */
@@ -38,12 +274,44 @@ export interface Jumpgate {
   fromSystemId: number;
   /** 目标星系ID */
   toSystemId: number;
+  /** 是否参与路线规划（默认 true） */
+  enabled?: boolean;
+  /** 路线规划代价，以一次星门跳跃为 1（默认 1） */
+  cost?: number;
+  /** 每次通过消耗的燃料（如液化臭氧），用于统计路线燃料（默认 0） */
+  fuel?: number;
+}
+
+/**
+ * 虫洞质量状态
+ * - stable：质量未减少
+ * - reduced：质量减少到一半以下
+ * - critical：质量严重不足（接近崩塌）
+ */
+export type WormholeMassStatus = 'stable' | 'reduced' | 'critical';
+
+/**
+ * 用户提供的虫洞连接（临时连接，可通过 mapControl.setWormholeConnections 更新）
+ */
+export interface WormholeConnection {
+  /** 起始星系ID */
+  fromSystemId: number;
+  /** 目标星系ID */
+  toSystemId: number;
+  /** 虫洞类型（如 'K162'、'B274'），显示在连线标签中 */
+  type?: string;
+  /** 质量状态（默认 'stable'） */
+  massStatus?: WormholeMassStatus;
+  /** 到期时间戳（毫秒），到期后自动移除；不传入表示未知 */
+  expiresAt?: number;
 }
 
 /**
  * 跳跃引擎配置
  */
 export interface JumpDriveConfig {
+  /** 显示在起点图标下方的标签（如集结点或驾驶员名称） */
+  label?: string;
   /** 起始星系ID（优先使用，如果存在） */
   originSystemId?: number;
   /** 自定义起始位置（当找不到星系时使用） */
@@ -68,6 +336,314 @@ export interface JumpDriveConfig {
   reachableSystemOpacity?: number;
 }
 
+/**
+ * 路线规划偏好
+ * - shortest: 最短路线
+ * - safest: 尽量只经过高安星系
+ * - insecure: 尽量只经过低安/00星系
+ */
+export type RoutePreference = 'shortest' | 'safest' | 'insecure';
+
+/**
+ * 路线规划选项
+ */
+export interface RoutePlanOptions {
+  /** 路线偏好（默认 'shortest'） */
+  preference?: RoutePreference;
+  /** 需要规避的星系ID（起点和终点除外） */
+  avoidSystemIds?: number[];
+  /** 需要规避的星域ID（起点和终点除外） */
+  avoidRegionIds?: number[];
+  /** 是否使用跳桥（默认 true） */
+  useJumpgates?: boolean;
+  /** 是否在地图上渲染路线（默认 true） */
+  render?: boolean;
+}
+
+/**
+ * 路线中的一段
+ */
+export interface RouteLeg {
+  /** 起始星系ID */
+  fromSystemId: number;
+  /** 目标星系ID */
+  toSystemId: number;
+  /** 连接方式：星门或跳桥 */
+  type: 'stargate' | 'jumpgate';
+  /** 该段消耗的燃料（仅跳桥） */
+  fuel: number;
+}
+
+/**
+ * 路线规划结果
+ */
+export interface RoutePlan {
+  /** 起点星系ID */
+  fromSystemId: number;
+  /** 终点星系ID */
+  toSystemId: number;
+  /** 按顺序排列的途经星系ID（包含起点和终点） */
+  systemIds: number[];
+  /** 每一段的连接方式（长度为 jumps） */
+  legs: RouteLeg[];
+  /** 跳数 */
+  jumps: number;
+  /** 其中通过跳桥的跳数 */
+  jumpgateJumps: number;
+  /** 跳桥燃料总消耗 */
+  fuel: number;
+  /** 使用的路线偏好 */
+  preference: RoutePreference;
+}
+
+/**
+ * 测量选项
+ */
+export interface MeasureOptions {
+  /** 是否在地图上绘制测量线（默认 true） */
+  render?: boolean;
+}
+
+/**
+ * 两个星系之间的测量结果
+ */
+export interface MeasureResult {
+  /** 起点星系ID */
+  fromSystemId: number;
+  /** 终点星系ID */
+  toSystemId: number;
+  /** 直线距离（单位：光年） */
+  distanceLightYears: number;
+  /** 最短星门跳数（不经过跳桥，星门不连通时为 null） */
+  jumps: number | null;
+}
+
+/**
+ * 跳跃路线优化目标（跳跃疲劳随光年累积）
+ * - jumps: 优先减少跳数，其次减少总光年
+ * - lightyears: 优先减少总光年
+ */
+export type JumpFatigueModel = 'jumps' | 'lightyears';
+
+/**
+ * 跳跃路线规划选项
+ */
+export interface JumpRouteOptions {
+  /** 单跳最大距离（单位：光年） */
+  rangeLightYears: number;
+  /** 优化目标（默认 'jumps'） */
+  fatigueModel?: JumpFatigueModel;
+  /** 是否禁止跳入高安星系（securityStatus >= 0.45，默认 true） */
+  avoidHighsec?: boolean;
+  /** 需要规避的星系ID（终点除外） */
+  avoidSystemIds?: number[];
+  /** 是否在地图上渲染跳跃路线（默认 true） */
+  render?: boolean;
+}
+
+/**
+ * 跳跃路线中的一跳
+ */
+export interface JumpRouteHop {
+  /** 起始星系ID */
+  fromSystemId: number;
+  /** 目标星系ID */
+  toSystemId: number;
+  /** 直线距离（单位：光年） */
+  distanceLightYears: number;
+}
+
+/**
+ * 跳跃路线规划结果
+ */
+export interface JumpRoutePlan {
+  /** 起点星系ID */
+  fromSystemId: number;
+  /** 终点星系ID */
+  toSystemId: number;
+  /** 按顺序排列的落点星系ID（包含起点和终点） */
+  systemIds: number[];
+  /** 每一跳的信息（长度为 jumps） */
+  hops: JumpRouteHop[];
+  /** 跳数 */
+  jumps: number;
+  /** 总距离（单位：光年） */
+  totalLightYears: number;
+  /** 使用的单跳最大距离（单位：光年） */
+  rangeLightYears: number;
+  /** 使用的优化目标 */
+  fatigueModel: JumpFatigueModel;
+}
+
+/**
+ * 可使用跳跃引擎的舰船类型
+ */
+export type JumpShipClass =
+  | 'carrier'
+  | 'dreadnought'
+  | 'forceAuxiliary'
+  | 'supercarrier'
+  | 'titan'
+  | 'blackOps'
+  | 'jumpFreighter'
+  | 'rorqual';
+
+/**
+ * 舰船跳跃属性
+ */
+export interface JumpShipProfile {
+  /** 基础跳跃距离（单位：光年，未计算技能加成） */
+  baseRangeLightYears: number;
+  /** 每光年同位素消耗（未计算技能加成） */
+  fuelPerLightYear: number;
+  /** 跳跃疲劳距离减免（0-1，如 0.9 表示减免 90%） */
+  fatigueReduction: number;
+}
+
+/**
+ * 跳跃相关技能等级（0-5）
+ */
+export interface JumpSkillLevels {
+  /** 跳跃引擎校准：每级 +20% 跳跃距离（默认 5） */
+  jumpDriveCalibration?: number;
+  /** 跳跃燃料节约：每级 -10% 同位素消耗（默认 5） */
+  jumpFuelConservation?: number;
+  /** 跳货操作：每级 -10% 同位素消耗，仅对跳货生效（默认 5） */
+  jumpFreighters?: number;
+}
+
+/**
+ * 跳跃链计算选项
+ */
+export interface JumpChainOptions {
+  /** 舰船类型 */
+  shipClass: JumpShipClass;
+  /** 技能等级 */
+  skills?: JumpSkillLevels;
+  /** 覆盖默认舰船属性 */
+  shipProfile?: Partial<JumpShipProfile>;
+  /** 起跳前已有的跳跃疲劳（单位：分钟，默认 0） */
+  initialFatigueMinutes?: number;
+  /** 每次重新激活计时结束后额外等待的时间（单位：分钟，默认 0） */
+  extraWaitMinutes?: number;
+}
+
+/**
+ * 跳跃链中一跳的计算结果
+ */
+export interface JumpChainHop {
+  /** 起始星系ID */
+  fromSystemId: number;
+  /** 目标星系ID */
+  toSystemId: number;
+  /** 直线距离（单位：光年） */
+  distanceLightYears: number;
+  /** 计算疲劳使用的有效距离（单位：光年） */
+  effectiveLightYears: number;
+  /** 是否在舰船跳跃距离内 */
+  withinRange: boolean;
+  /** 同位素消耗 */
+  isotopes: number;
+  /** 起跳时刻（距第一跳的分钟数） */
+  departureMinutes: number;
+  /** 起跳前的跳跃疲劳（单位：分钟） */
+  fatigueBeforeMinutes: number;
+  /** 起跳后的跳跃疲劳（单位：分钟） */
+  fatigueAfterMinutes: number;
+  /** 起跳后的重新激活计时（单位：分钟） */
+  reactivationMinutes: number;
+}
+
+/**
+ * 跳跃链计算结果
+ */
+export interface JumpChainResult {
+  /** 使用的舰船类型 */
+  shipClass: JumpShipClass;
+  /** 计算技能加成后的最大跳跃距离（单位：光年） */
+  maxRangeLightYears: number;
+  /** 每一跳的计算结果 */
+  hops: JumpChainHop[];
+  /** 总距离（单位：光年） */
+  totalLightYears: number;
+  /** 同位素总消耗 */
+  totalIsotopes: number;
+  /** 最后一跳的起跳时刻（距第一跳的分钟数） */
+  totalTravelMinutes: number;
+  /** 到达终点时的跳跃疲劳（单位：分钟） */
+  finalFatigueMinutes: number;
+  /** 到达终点时的重新激活计时（单位：分钟） */
+  finalReactivationMinutes: number;
+  /** 是否所有跳跃都在距离内 */
+  allWithinRange: boolean;
+}
+
+/**
+ * 搜索结果类型
+ */
+export type MapSearchResultType = 'system' | 'region' | 'constellation';
+
+/**
+ * 搜索选项
+ */
+export interface MapSearchOptions {
+  /** 最多返回的结果数量（默认 10） */
+  limit?: number;
+  /** 参与搜索的类型（默认 ['system', 'region', 'constellation']） */
+  types?: MapSearchResultType[];
+}
+
+/**
+ * 搜索结果
+ */
+export interface MapSearchResult {
+  /** 结果类型 */
+  type: MapSearchResultType;
+  /** 星系、星域或星座ID */
+  id: number;
+  /** 多语言名称 */
+  name: { [key: string]: string };
+  /** 命中的名称（或ID） */
+  matchedName: string;
+  /** 匹配得分，越高越相关 */
+  score: number;
+}
+
+/**
+ * 可分享的地图视图状态（用于生成深链接）
+ */
+export interface MapViewState {
+  /** 格式版本号 */
+  version: number;
+  /** 相机位置与目标（渲染坐标） */
+  camera?: {
+    position: [number, number, number];
+    target: [number, number, number];
+  };
+  /** 选中的星系ID */
+  selectedSystemId?: number | null;
+  /** 高亮的星域ID */
+  highlightedRegionId?: number | null;
+  /** 高亮的星座ID */
+  highlightedConstellationId?: number | null;
+  /** 高亮的星系ID列表 */
+  highlightedSystemIds?: number[];
+  /** 跳跃引擎配置 */
+  jumpDriveConfig?: JumpDriveConfig | JumpDriveConfig[];
+  /** 语言 */
+  language?: Language;
+}
+
+/**
+ * location.hash 同步选项
+ */
+export interface MapHashSyncOptions {
+  /** 是否启用同步（默认 true） */
+  enabled?: boolean;
+  /** 检查状态变化并写入 hash 的间隔（毫秒，默认 500） */
+  intervalMs?: number;
+}
+
 /**
  * 星系渲染配置
  */
@@ -96,6 +672,118 @@ export interface SecurityColorConfig {
   nullsec?: string;
 }
 
+/**
+ * 地图视图模式
+ * - newEden：按 SDE 坐标显示 New Eden（默认）
+ * - jspace：按虫洞等级分组排列虫洞星系（31000000-31999999），以及与虫洞连接相连的其他星系
+ */
+export type MapViewMode = 'newEden' | 'jspace';
+
+/**
+ * 虫洞空间视图配置（viewMode 为 jspace 时生效，连接颜色与标签在两种视图下均生效）
+ */
+export interface JSpaceConfig {
+  /** 各虫洞等级的颜色（键为 wormholeClassID） */
+  classColors?: Record<number, string>;
+  /** 是否按虫洞等级着色（默认 true，colorMode 为 security 以外的模式时按该模式着色） */
+  colorByClass?: boolean;
+  /** 同一星座中相邻星系的间距（单位：米，默认 5e15） */
+  systemSpacing?: number;
+  /** 各质量状态的连线颜色 */
+  massColors?: Partial<Record<WormholeMassStatus, string>>;
+  /** 剩余时间少于该值（毫秒）时连线显示为虚线（默认 4 小时） */
+  endOfLifeThreshold?: number;
+  /** 是否在连线中点显示虫洞类型与剩余时间（默认 true） */
+  showConnectionLabels?: boolean;
+  /** 是否显示虫洞等级图例（默认 true） */
+  showLegend?: boolean;
+  /** 图例标题 */
+  legendTitle?: string;
+}
+
+/**
+ * 星系着色模式
+ * - security：按安全等级着色（默认）
+ * - sovereignty / faction / custom：按 territory.owners 中的归属着色
+ * - star：按恒星温度 / 光谱型着色，按光度调整大小（需要传入 stars）
+ */
+export type ColorMode = 'security' | 'sovereignty' | 'faction' | 'custom' | 'star';
+
+/**
+ * 恒星光谱型（光谱型字符串的首字母）
+ */
+export type SpectralType = 'O' | 'B' | 'A' | 'F' | 'G' | 'K' | 'M';
+
+/**
+ * 恒星着色配置（colorMode 为 star 时生效）
+ */
+export interface StarColorConfig {
+  /** 各光谱型的颜色，相邻光谱型之间按温度插值 */
+  colors?: Partial<Record<SpectralType, string>>;
+  /** 是否按光度调整星系大小（默认 true） */
+  sizeByLuminosity?: boolean;
+  /** 光度最低 / 最高的星系大小倍数（默认 [0.6, 2]），光度按对数映射 */
+  sizeRange?: [number, number];
+  /** 没有恒星数据的星系颜色（默认仍按安全等级着色） */
+  missingColor?: string;
+  /** 是否显示光谱型图例（默认 true） */
+  showLegend?: boolean;
+  /** 图例标题 */
+  legendTitle?: string;
+}
+
+/**
+ * 领地着色配置（colorMode 为 sovereignty / faction / custom 时生效）
+ */
+export interface TerritoryColorConfig {
+  /** 星系归属：星系ID -> 归属ID（联盟、势力或任意自定义分组） */
+  owners: Map<number, number | string>;
+  /** 指定归属的颜色（键为归属ID），faction 模式下内置四大帝国颜色 */
+  colors?: Record<string, string>;
+  /** 未指定颜色的归属按拥有星系数从多到少依次使用的调色板 */
+  palette?: string[];
+  /** 图例中显示的归属名称（键为归属ID） */
+  ownerNames?: Record<string, string>;
+  /** 不在 owners 中的星系颜色（默认仍按安全等级着色） */
+  unclaimedColor?: string;
+  /** 是否显示半透明星域外壳，颜色取星域内过半星系的归属（默认 false） */
+  showRegionHulls?: boolean;
+  /** 星域外壳透明度（默认 0.08） */
+  regionHullOpacity?: number;
+  /** 是否显示图例（默认 true） */
+  showLegend?: boolean;
+  /** 图例标题 */
+  legendTitle?: string;
+  /** 图例最多显示的归属数量，其余合并为“其他”（默认 12） */
+  legendMaxItems?: number;
+}
+
+/**
+ * 热力图配置：按任意星系指标（击杀数、跳跃数等）着色
+ */
+export interface HeatmapConfig {
+  /** 是否启用（默认 true） */
+  enabled?: boolean;
+  /** 星系ID -> 指标值，不在其中的星系按原有方式着色 */
+  values: Record<number, number>;
+  /** 颜色渐变，从最小值到最大值均匀分布（默认 蓝 → 青 → 黄 → 红） */
+  colorRamp?: string[];
+  /** 数值映射方式（默认 'linear'），log 适合跨度较大的计数数据 */
+  scale?: 'linear' | 'log';
+  /** 映射下限（默认取数据最小值） */
+  min?: number;
+  /** 映射上限（默认取数据最大值） */
+  max?: number;
+  /** 星系大小缩放范围 [最小值对应, 最大值对应]（默认 [1, 2.5]，两者相同则不缩放） */
+  sizeRange?: [number, number];
+  /** 透明度（默认 0.85） */
+  opacity?: number;
+  /** 是否显示图例（默认 true） */
+  showLegend?: boolean;
+  /** 图例标题 */
+  legendTitle?: string;
+}
+
 /**
  * 聚焦配置
  */
@@ -110,16 +798,249 @@ export interface FocusConfig {
   animationDuration?: number;
 }
 
+/**
+ * 悬停提示渲染上下文
+ */
+export interface SystemTooltipContext {
+  /** 悬停的星系 */
+  system: SolarSystem;
+  /** 星系所属星域（需传入 regions） */
+  region?: Region;
+  /** 星系所属星座（需传入 constellations） */
+  constellation?: Constellation;
+  /** 当前语言 */
+  language: Language;
+}
+
+/**
+ * 星系悬停提示配置
+ */
+export interface TooltipConfig {
+  /** 是否显示悬停提示（默认 true） */
+  enabled?: boolean;
+  /** 自定义字段，显示在默认内容之后 */
+  fields?: (system: SolarSystem) => Array<{ label: string; value: React.ReactNode }>;
+  /** 自定义渲染函数，返回值将完全替换默认内容 */
+  render?: (context: SystemTooltipContext) => React.ReactNode;
+  /** 悬停检测节流间隔（毫秒，默认 50） */
+  throttleMs?: number;
+}
+
+/**
+ * 星系拾取方式
+ * - screen: 将星系投影到屏幕后按像素距离查找最近点，远处的小星系也能稳定点中
+ * - raycast: 对星系几何体做射线检测
+ */
+export type PickingMode = 'screen' | 'raycast';
+
+/**
+ * 星系拾取配置（点击与悬停共用）
+ */
+export interface PickingConfig {
+  /** 拾取方式（默认 'screen'） */
+  mode?: PickingMode;
+  /** 屏幕空间拾取的像素容差（默认 6） */
+  tolerance?: number;
+}
+
+/**
+ * 键盘操作
+ * - panForward / panBackward / panLeft / panRight: 水平平移视角
+ * - zoomIn / zoomOut: 拉近 / 拉远
+ * - deselect: 取消选中（无选中时依次取消星座、星域高亮）
+ * - nextSystem / previousSystem: 在高亮星座（或星域）内按名称循环选择星系
+ * - focus: 聚焦到选中的星系或高亮的星座、星域
+ * - resetCamera: 重置相机
+ */
+export type MapKeyAction =
+  | 'panForward'
+  | 'panBackward'
+  | 'panLeft'
+  | 'panRight'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'deselect'
+  | 'nextSystem'
+  | 'previousSystem'
+  | 'focus'
+  | 'resetCamera';
+
+/**
+ * 键盘快捷键配置（地图容器获得焦点时生效）
+ */
+export interface KeyBindingsConfig {
+  /** 是否启用键盘操作（默认 true） */
+  enabled?: boolean;
+  /** 覆盖默认按键，按键名同 KeyboardEvent.key，可加 Ctrl+ / Alt+ / Meta+ / Shift+ 前缀；传入空数组可禁用该操作 */
+  bindings?: Partial<Record<MapKeyAction, string[]>>;
+  /** 每次平移的距离占相机到目标距离的比例（默认 0.1） */
+  panStep?: number;
+  /** 每次缩放的倍数（默认 1.25） */
+  zoomStep?: number;
+}
+
+/**
+ * 右键菜单项
+ */
+export interface ContextMenuItem {
+  /** 显示文本 */
+  label: string;
+  /** 点击回调（含子菜单的项可省略） */
+  onClick?: () => void;
+  /** 是否禁用 */
+  disabled?: boolean;
+  /** 是否为分隔线 */
+  divider?: boolean;
+  /** 图标（显示在文本左侧） */
+  icon?: React.ReactNode;
+  /** 子菜单 */
+  children?: ContextMenuItem[];
+}
+
+/**
+ * 右键菜单目标：右键位置下的星系及其所属星域
+ */
+export interface ContextMenuTarget {
+  /** 右键位置下的星系（未命中时为 null） */
+  system: SolarSystem | null;
+  /** 命中星系所属的星域；未命中星系时为当前高亮的星域（需传入 regions） */
+  region: Region | null;
+  /** 当前语言 */
+  language: Language;
+  /** 内置菜单项，可在自定义菜单中复用 */
+  defaultItems: ContextMenuItem[];
+}
+
+/**
+ * 情报报告（addIntel 的参数）
+ */
+export interface IntelReport {
+  /** 报告所在的星系ID */
+  systemId: number;
+  /** 敌对人数（默认 1） */
+  count?: number;
+  /** 备注（如舰船类型、频道原文） */
+  note?: string;
+  /** 报告时间（毫秒时间戳，默认为当前时间） */
+  timestamp?: number;
+}
+
+/**
+ * 地图上的一条情报（已补全默认值）
+ */
+export interface IntelEntry {
+  /** 情报ID（用于 removeIntel） */
+  id: number;
+  systemId: number;
+  count: number;
+  note?: string;
+  timestamp: number;
+}
+
+/**
+ * 情报显示与预警配置
+ */
+export interface IntelConfig {
+  /** 情报有效期（毫秒，默认 300000 即 5 分钟），标记随时间淡出，过期后移除 */
+  ttl?: number;
+  /** 标记颜色（默认 '#ff3b30'） */
+  color?: string;
+  /** 是否在标记上显示人数角标（默认 true） */
+  showBadge?: boolean;
+  /** 关注的星系（如舰队或母港所在星系） */
+  watchedSystemIds?: number[];
+  /** 情报距关注星系不超过该星门跳数时触发 onIntelAlert（默认 5） */
+  alertJumps?: number;
+}
+
+/**
+ * 情报预警：新情报位于关注星系附近
+ */
+export interface IntelAlert {
+  /** 触发预警的情报 */
+  report: IntelEntry;
+  /** 距离最近的关注星系ID */
+  watchedSystemId: number;
+  /** 与该关注星系之间的星门跳数 */
+  jumps: number;
+}
+
+/**
+ * 角色（舰队成员）位置
+ */
+export interface Pilot {
+  /** 角色ID */
+  id: number | string;
+  /** 角色名称 */
+  name: string;
+  /** 所在星系ID */
+  systemId: number;
+  /** 舰船类型 */
+  shipType?: string;
+  /** 标记颜色（默认 '#4fc3f7'） */
+  color?: string;
+  /** 头像地址（不传入时显示名称首字母） */
+  avatarUrl?: string;
+}
+
+/**
+ * 角色标记配置
+ */
+export interface PilotMarkersConfig {
+  /** 角色移动到相邻星系的动画时长（毫秒，默认 1200），跨多个星系时按跳数累加 */
+  moveDuration?: number;
+  /** 同一星系最多显示的头像数量，其余折叠为 "+N"（默认 4） */
+  maxStacked?: number;
+}
+
+/**
+ * 聊天记录情报解析选项
+ */
+export interface IntelLogParseOptions {
+  /** 部分名称的最小长度（默认 3），部分名称只在唯一对应一个星系且含数字、连字符或全大写时匹配，如 "1DQ" 匹配 "1DQ1-A" */
+  minPartialLength?: number;
+  /** 不作为星系名称匹配的词（不区分大小写，默认为 nv、clr、status 等常见情报用语） */
+  ignoreWords?: string[];
+  /** 只保留不早于该时间的消息（毫秒时间戳） */
+  since?: number;
+}
+
+/**
+ * 从聊天记录中解析出的情报（每条消息中的每个星系各一条，可直接传给 addIntel）
+ */
+export interface IntelLogReport extends IntelReport {
+  /** 消息时间（毫秒时间戳，聊天记录使用 EVE 时间即 UTC） */
+  timestamp: number;
+  /** 发言人 */
+  reporter: string;
+  /** 消息原文（不含时间与发言人），addIntel 将其作为情报备注 */
+  note: string;
+  /** 消息中被识别为该星系的文本 */
+  matchedText: string;
+  /** 是否为报平安消息（clr / clear） */
+  clear: boolean;
+}
+
 /**
  * 事件回调
  */
 export interface EveMap3DEvents {
-  /** 点击星系时触发 */
-  onSystemClick?: (system: SolarSystem) => void;
+  /** 点击星系时触发，传入 stars 时附带该星系的恒星数据 */
+  onSystemClick?: (system: SolarSystem, star?: Star) => void;
+  /** 鼠标悬停的星系变化时触发（移出星系时为 null） */
+  onSystemHover?: (system: SolarSystem | null) => void;
   /** 点击星域标签时触发 */
   onRegionClick?: (region: Region) => void;
+  /** 点击星座标签时触发 */
+  onConstellationClick?: (constellation: Constellation) => void;
   /** 聚焦完成时触发 */
   onFocusComplete?: (config: FocusConfig) => void;
+  /** 新情报位于关注星系附近时触发（见 IntelConfig.watchedSystemIds） */
+  onIntelAlert?: (alert: IntelAlert) => void;
+  /** 点击角色标记时触发 */
+  onPilotClick?: (pilot: Pilot) => void;
+  /** 测量模式下点击第二个星系完成测量时触发 */
+  onMeasure?: (result: MeasureResult) => void;
 }
 
 /**
@@ -144,6 +1065,18 @@ export interface CustomStyleConfig {
   labelFontSize?: number;
   /** 标签颜色 */
   labelColor?: string;
+  /** 星座标签颜色（默认 '#8fb8ff'） */
+  constellationLabelColor?: string;
+  /** 路线颜色（默认 '#ffd700'） */
+  routeLineColor?: string;
+  /** 路线透明度（默认 0.95） */
+  routeLineOpacity?: number;
+  /** 路线中跳桥段的颜色（默认 '#00ff7f'） */
+  routeJumpgateLineColor?: string;
+  /** 跳跃路线弧线颜色（默认 '#ff8c00'） */
+  jumpRouteLineColor?: string;
+  /** 测量线颜色（默认 '#e040fb'） */
+  measureLineColor?: string;
 }
 
 /**
@@ -156,18 +1089,46 @@ export interface MapControlConfig {
   systemRenderConfigs?: SystemRenderConfig[];
   /** 安全等级颜色配置（可选，用于覆盖默认颜色） */
   securityColors?: SecurityColorConfig;
+  /** 星系着色模式（默认 'security'） */
+  colorMode?: ColorMode;
+  /** 领地着色配置 */
+  territory?: TerritoryColorConfig;
+  /** 恒星着色配置 */
+  star?: StarColorConfig;
+  /** 热力图配置（优先级高于着色模式，低于 systemRenderConfigs） */
+  heatmap?: HeatmapConfig;
   /** 自定义样式 */
   style?: CustomStyleConfig;
-  /** 是否只显示New Eden星系（默认 true） */
+  /** 是否只显示New Eden星系（默认 true，viewMode 为 jspace 时不生效） */
   filterNewEdenOnly?: boolean;
+  /** 视图模式（默认 'newEden'） */
+  viewMode?: MapViewMode;
+  /** 虫洞空间视图与虫洞连接配置 */
+  jspace?: JSpaceConfig;
   /** 自定义过滤函数 */
   systemFilter?: (system: SolarSystem) => boolean;
   /** 容器样式 */
   containerStyle?: React.CSSProperties;
   /** 容器类名 */
   containerClassName?: string;
-  /** 跳跃引擎配置 */
-  jumpDriveConfig?: JumpDriveConfig;
+  /** 跳跃引擎配置（传入数组可同时显示多个跳跃范围，虫洞空间视图中不显示） */
+  jumpDriveConfig?: JumpDriveConfig | JumpDriveConfig[];
+  /** 星系悬停提示配置 */
+  tooltip?: TooltipConfig;
+  /** 星系拾取配置 */
+  picking?: PickingConfig;
+  /** 键盘快捷键配置 */
+  keyBindings?: KeyBindingsConfig;
+  /** 情报显示与预警配置 */
+  intel?: IntelConfig;
+  /** 角色标记配置 */
+  pilotMarkers?: PilotMarkersConfig;
+  /** 测量模式：开启后依次点击两个星系测量距离与跳数（点击星系不再选中星系，虫洞空间视图中无效） */
+  measureMode?: boolean;
+  /** 覆盖界面文本（未覆盖的文本使用当前语言的内置文本） */
+  localeStrings?: Partial<LocaleStrings>;
+  /** 自定义右键菜单：根据右键目标返回菜单项（不传入则使用内置菜单项），在菜单打开时调用一次 */
+  contextMenuItems?: (target: ContextMenuTarget) => ContextMenuItem[];
   /** 事件回调 */
   events?: EveMap3DEvents;
 }
@@ -189,6 +1150,8 @@ export interface MapControl {
   focusSystem: (systemId: number, animationDuration?: number) => void;
   /** 聚焦到指定星域（会自动移动摄像机） */
   focusRegion: (regionId: number, animationDuration?: number) => void;
+  /** 聚焦到指定星座（会自动移动摄像机） */
+  focusConstellation: (constellationId: number, animationDuration?: number) => void;
   /** 设置相机位置 */
   setCameraPosition: (x: number, y: number, z: number) => void;
   /** 设置相机目标 */
@@ -207,18 +1170,78 @@ export interface MapControl {
   highlightRegion: (regionId: number | null) => void;
   /** 获取当前高亮的星域ID */
   getHighlightedRegionId: () => number | null;
+  /** 高亮星座内的星系（会自动移动摄像机） */
+  highlightConstellation: (constellationId: number | null) => void;
+  /** 获取当前高亮的星座ID */
+  getHighlightedConstellationId: () => number | null;
   /** 高亮星系（不会自动移动摄像机） */
   highlightSystems: (systemIds: number[]) => void;
   /** 获取当前高亮的星系ID列表 */
   getHighlightedSystemIds: () => number[];
-  
+  /** 按名称或ID搜索当前地图上的星系、星域与星座（遵循 systemFilter） */
+  searchMap: (query: string, options?: MapSearchOptions) => MapSearchResult[];
+  /** 获取跳跃引擎可达星系ID：union 为任一起点可达，intersection 为所有起点均可达（默认 'union'） */
+  getJumpDriveReachableSystemIds: (mode?: 'union' | 'intersection') => number[];
+  /** 将相机、选中与高亮状态、跳跃引擎配置和语言序列化为可放入 URL 的字符串 */
+  serializeState: () => string;
+  /** 从 serializeState 生成的字符串恢复视图（不播放聚焦动画），格式无效时返回 false */
+  restoreState: (state: string) => boolean;
+
+  // ============ 路线规划方法 ============
+  /** 在星门及跳桥图上规划路线（遵循 systemFilter），找不到路线时返回 null */
+  planRoute: (fromId: number, toId: number, options?: RoutePlanOptions) => RoutePlan | null;
+  /** 清除地图上的路线 */
+  clearRoute: () => void;
+  /** 获取当前显示的路线 */
+  getRoute: () => RoutePlan | null;
+  /** 规划旗舰跳跃路线（多跳诱导链，遵循 systemFilter），找不到路线或处于虫洞空间视图时返回 null */
+  planJumpRoute: (fromId: number, toId: number, options: JumpRouteOptions) => JumpRoutePlan | null;
+  /** 清除地图上的跳跃路线 */
+  clearJumpRoute: () => void;
+  /** 获取当前显示的跳跃路线 */
+  getJumpRoute: () => JumpRoutePlan | null;
+  /** 测量两个星系之间的光年距离与星门跳数（遵循 systemFilter），星系不存在或处于虫洞空间视图时返回 null */
+  measure: (fromId: number, toId: number, options?: MeasureOptions) => MeasureResult | null;
+  /** 清除地图上的测量线 */
+  clearMeasurement: () => void;
+  /** 获取当前显示的测量结果 */
+  getMeasurement: () => MeasureResult | null;
+
+  // ============ 情报方法 ============
+  /** 添加情报：在星系上显示脉冲标记，靠近关注星系时触发 onIntelAlert */
+  addIntel: (report: IntelReport) => IntelEntry;
+  /** 移除指定情报 */
+  removeIntel: (id: number) => void;
+  /** 清除情报（传入星系ID时只清除该星系的情报） */
+  clearIntel: (systemId?: number) => void;
+  /** 获取当前未过期的情报 */
+  getIntelReports: () => IntelEntry[];
+
+  // ============ 角色方法 ============
+  /** 设置角色位置：同一星系的角色叠放显示，所在星系变化时沿星门连线移动 */
+  setPilots: (pilots: Pilot[]) => void;
+  /** 获取当前显示的角色 */
+  getPilots: () => Pilot[];
+
+  // ============ 虫洞方法 ============
+  /** 设置虫洞连接：两端星系都显示时绘制连线，到期的连接自动移除 */
+  setWormholeConnections: (connections: WormholeConnection[]) => void;
+  /** 获取当前未到期的虫洞连接 */
+  getWormholeConnections: () => WormholeConnection[];
+
   /** @internal 内部方法，供组件使用 */
   __internal?: {
     setControlsRef: (ref: unknown) => void;
     setSystems: (systems: SolarSystem[]) => void;
+    setRegions: (regions: Region[]) => void;
+    setConstellations: (constellations: Constellation[]) => void;
+    setConnections: (connections: Array<{ from: SolarSystem; to: SolarSystem }>) => void;
+    setJumpgates: (jumpgates: Jumpgate[]) => void;
+    setJumpDriveReachableSystemIds: (reachableSystemIds: number[][]) => void;
     setInitialCameraPosition: (position: { x: number; y: number; z: number }, target: { x: number; y: number; z: number }) => void;
     subscribe: (callback: () => void) => () => void;
     getVersion: () => number;
+    handleKeyAction: (action: MapKeyAction, options?: { panStep?: number; zoomStep?: number }) => boolean;
   };
 }
 
@@ -234,7 +1257,31 @@ export interface EveMap3DProps {
   jumpgates?: Jumpgate[];
   /** 星域数据（可选，用于显示星域标签） */
   regions?: Region[];
+  /** 星座数据（可选，用于显示星座标签） */
+  constellations?: Constellation[];
+  /** 恒星数据（可选，用于恒星着色和点击事件） */
+  stars?: Star[];
   /** 地图控制对象（通过 useMapControl 生成，包含配置和控制方法） */
   mapControl: MapControl;
 }
 
+
+/**
+ * MapSearch 组件 Props
+ */
+export interface MapSearchProps {
+  /** 地图控制对象（搜索基于其当前的星系与星域数据） */
+  mapControl: MapControl;
+  /** 输入框占位文字 */
+  placeholder?: string;
+  /** 最多显示的结果数量（默认 10） */
+  limit?: number;
+  /** 参与搜索的类型（默认 ['system', 'region', 'constellation']） */
+  types?: MapSearchResultType[];
+  /** 容器样式（默认定位在左上角） */
+  style?: React.CSSProperties;
+  /** 容器类名 */
+  className?: string;
+  /** 选中结果后触发 */
+  onSelect?: (result: MapSearchResult) => void;
+}
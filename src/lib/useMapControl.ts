@@ -1,5 +1,11 @@
-import { useRef, useCallback, useState, useMemo } from 'react';
-import type { MapControl, MapControlConfig, SolarSystem } from './types';
+import { useRef, useCallback, useState, useMemo, useEffect } from 'react';
+import type { Constellation, IntelEntry, IntelReport, Jumpgate, JumpRouteOptions, JumpRoutePlan, MapControl, MapControlConfig, MapKeyAction, MapSearchOptions, MapViewState, MeasureOptions, MeasureResult, Pilot, Region, RoutePlan, RoutePlanOptions, SolarSystem, WormholeConnection } from './types';
+import { findNearbySystems, findRoute, type StargateConnection } from './routePlanner';
+import { findJumpRoute, getLightYearDistance } from './jumpRoutePlanner';
+import { searchMap as searchMapData } from './mapSearch';
+import { getLocalizedName } from './i18n';
+import { decodeMapViewState, encodeMapViewState, MAP_VIEW_STATE_VERSION } from './mapState';
+import { DEFAULT_INTEL_ALERT_JUMPS, DEFAULT_INTEL_TTL } from './components/constants';
 
 interface OrbitControlsRef {
   target: { x: number; y: number; z: number; set: (x: number, y: number, z: number) => void };
@@ -43,9 +49,17 @@ function easeInOutCubic(t: number): number {
 export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapControl {
   const controlsRef = useRef<OrbitControlsRef | null>(null);
   const systemsRef = useRef<SolarSystem[]>([]);
+  const regionsRef = useRef<Region[]>([]);
+  const constellationsRef = useRef<Constellation[]>([]);
+  const connectionsRef = useRef<StargateConnection[]>([]);
+  const jumpgatesRef = useRef<Jumpgate[]>([]);
+  const jumpDriveReachableRef = useRef<number[][]>([]);
   const initialCameraPositionRef = useRef<{ x: number; y: number; z: number } | null>(null);
   const initialCameraTargetRef = useRef<{ x: number; y: number; z: number } | null>(null);
+  // 恢复状态时相机尚未初始化，待初始化完成后再应用
+  const pendingCameraRef = useRef<MapViewState['camera'] | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const intelIdRef = useRef(0);
   
   // 版本号，用于追踪状态变化
   const versionRef = useRef(0);
@@ -55,19 +69,40 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     language: initialConfig?.language || 'zh',
     systemRenderConfigs: initialConfig?.systemRenderConfigs,
     securityColors: initialConfig?.securityColors,
+    colorMode: initialConfig?.colorMode,
+    territory: initialConfig?.territory,
+    star: initialConfig?.star,
+    heatmap: initialConfig?.heatmap,
     style: initialConfig?.style,
     filterNewEdenOnly: initialConfig?.filterNewEdenOnly !== false,
+    viewMode: initialConfig?.viewMode,
+    jspace: initialConfig?.jspace,
     systemFilter: initialConfig?.systemFilter,
     containerStyle: initialConfig?.containerStyle,
     containerClassName: initialConfig?.containerClassName,
     jumpDriveConfig: initialConfig?.jumpDriveConfig,
+    tooltip: initialConfig?.tooltip,
+    picking: initialConfig?.picking,
+    keyBindings: initialConfig?.keyBindings,
+    intel: initialConfig?.intel,
+    pilotMarkers: initialConfig?.pilotMarkers,
+    measureMode: initialConfig?.measureMode,
+    contextMenuItems: initialConfig?.contextMenuItems,
+    localeStrings: initialConfig?.localeStrings,
     events: initialConfig?.events,
   });
   
   // 状态管理
   const [selectedSystemId, setSelectedSystemId] = useState<number | null>(null);
   const [highlightedRegionId, setHighlightedRegionIdState] = useState<number | null>(null);
+  const [highlightedConstellationId, setHighlightedConstellationIdState] = useState<number | null>(null);
   const [highlightedSystemIds, setHighlightedSystemIdsState] = useState<number[]>([]);
+  const [route, setRouteState] = useState<RoutePlan | null>(null);
+  const [jumpRoute, setJumpRouteState] = useState<JumpRoutePlan | null>(null);
+  const [measurement, setMeasurementState] = useState<MeasureResult | null>(null);
+  const [intelReports, setIntelReportsState] = useState<IntelEntry[]>([]);
+  const [pilots, setPilotsState] = useState<Pilot[]>([]);
+  const [wormholeConnections, setWormholeConnectionsState] = useState<WormholeConnection[]>([]);
   
   // 订阅者列表，用于通知组件更新
   const subscribersRef = useRef<Set<() => void>>(new Set());
@@ -90,6 +125,14 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
   // 内部方法：设置 controls 引用（由 EveMap3D 组件调用）
   const setControlsRef = useCallback((ref: unknown) => {
     controlsRef.current = ref as OrbitControlsRef | null;
+
+    // 已高亮星域时场景会跳过相机初始化，因此在拿到 controls 时先应用待恢复的相机
+    const pendingCamera = pendingCameraRef.current;
+    if (pendingCamera && controlsRef.current) {
+      controlsRef.current.target.set(...pendingCamera.target);
+      controlsRef.current.object.position.set(...pendingCamera.position);
+      controlsRef.current.update();
+    }
   }, []);
 
   // 内部方法：设置系统数据（由 EveMap3D 组件调用）
@@ -97,10 +140,43 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     systemsRef.current = systems;
   }, []);
 
+  // 内部方法：设置星域数据（由 EveMap3D 组件调用）
+  const setRegions = useCallback((regions: Region[]) => {
+    regionsRef.current = regions;
+  }, []);
+
+  // 内部方法：设置星座数据（由 EveMap3D 组件调用）
+  const setConstellations = useCallback((constellations: Constellation[]) => {
+    constellationsRef.current = constellations;
+  }, []);
+
+  // 内部方法：设置星门连接（由 EveMap3D 组件调用）
+  const setConnections = useCallback((connections: StargateConnection[]) => {
+    connectionsRef.current = connections;
+  }, []);
+
+  // 内部方法：设置跳桥数据（由 EveMap3D 组件调用）
+  const setJumpgates = useCallback((jumpgates: Jumpgate[]) => {
+    jumpgatesRef.current = jumpgates;
+  }, []);
+
+  // 内部方法：设置每个跳跃引擎配置的可达星系（由 EveMap3D 组件调用）
+  const setJumpDriveReachableSystemIds = useCallback((reachableSystemIds: number[][]) => {
+    jumpDriveReachableRef.current = reachableSystemIds;
+  }, []);
+
   // 内部方法：设置初始相机位置（由 EveMap3D 组件调用）
   const setInitialCameraPosition = useCallback((position: { x: number; y: number; z: number }, target: { x: number; y: number; z: number }) => {
     initialCameraPositionRef.current = position;
     initialCameraTargetRef.current = target;
+
+    const pendingCamera = pendingCameraRef.current;
+    if (pendingCamera && controlsRef.current) {
+      pendingCameraRef.current = null;
+      controlsRef.current.target.set(...pendingCamera.target);
+      controlsRef.current.object.position.set(...pendingCamera.position);
+      controlsRef.current.update();
+    }
   }, []);
 
   // 内部方法：订阅状态变化
@@ -314,27 +390,25 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     animationFrameRef.current = requestAnimationFrame(animate);
   }, []);
 
-  // 聚焦到指定星域
-  const focusRegion = useCallback((regionId: number, animationDuration = 1500) => {
+  // 聚焦到一组星系（星域、星座共用）
+  const focusSystemGroup = useCallback((groupSystems: SolarSystem[], animationDuration: number) => {
     if (!controlsRef.current) return;
+    if (groupSystems.length === 0) return;
 
-    const regionSystems = systemsRef.current.filter(s => s.regionID === regionId);
-    if (regionSystems.length === 0) return;
-
-    // 计算星域的中心点
+    // 计算星系组的中心点
     let centerX = 0, centerY = 0, centerZ = 0;
-    regionSystems.forEach(system => {
+    groupSystems.forEach(system => {
       centerX += -system.position.x;
       centerY += -system.position.y;
       centerZ += system.position.z;
     });
-    centerX /= regionSystems.length;
-    centerY /= regionSystems.length;
-    centerZ /= regionSystems.length;
+    centerX /= groupSystems.length;
+    centerY /= groupSystems.length;
+    centerZ /= groupSystems.length;
 
     // 计算边界框大小
     let maxDistance = 0;
-    regionSystems.forEach(system => {
+    groupSystems.forEach(system => {
       const dx = -system.position.x - centerX;
       const dy = -system.position.y - centerY;
       const dz = system.position.z - centerZ;
@@ -434,6 +508,16 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     animationFrameRef.current = requestAnimationFrame(animate);
   }, []);
 
+  // 聚焦到指定星域
+  const focusRegion = useCallback((regionId: number, animationDuration = 1500) => {
+    focusSystemGroup(systemsRef.current.filter(s => s.regionID === regionId), animationDuration);
+  }, [focusSystemGroup]);
+
+  // 聚焦到指定星座
+  const focusConstellation = useCallback((constellationId: number, animationDuration = 1500) => {
+    focusSystemGroup(systemsRef.current.filter(s => s.constellationID === constellationId), animationDuration);
+  }, [focusSystemGroup]);
+
   // 设置相机位置
   const setCameraPosition = useCallback((x: number, y: number, z: number) => {
     if (!controlsRef.current) return;
@@ -465,6 +549,7 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
   // 选择星系（会自动聚焦和高亮）
   const selectSystem = useCallback((systemId: number | null) => {
     setSelectedSystemId(systemId);
+    setHighlightedConstellationIdState(null);
     
     if (systemId !== null) {
       // 高亮选中的星系
@@ -492,6 +577,7 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
   // 高亮星域（会自动移动摄像机）
   const highlightRegion = useCallback((regionId: number | null) => {
     setHighlightedRegionIdState(regionId);
+    setHighlightedConstellationIdState(null);
     
     if (regionId !== null) {
       // 清除选中的星系
@@ -508,6 +594,28 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
   // 获取当前高亮的星域ID
   const getHighlightedRegionId = useCallback(() => highlightedRegionId, [highlightedRegionId]);
 
+  // 高亮星座（高亮星座内的星系并自动移动摄像机）
+  const highlightConstellation = useCallback((constellationId: number | null) => {
+    setHighlightedConstellationIdState(constellationId);
+
+    if (constellationId !== null) {
+      // 清除选中的星系和高亮的星域
+      setSelectedSystemId(null);
+      setHighlightedRegionIdState(null);
+      setHighlightedSystemIdsState(systemsRef.current.filter(s => s.constellationID === constellationId).map(s => s._key));
+
+      // 自动聚焦到星座
+      focusConstellation(constellationId);
+    } else {
+      setHighlightedSystemIdsState([]);
+    }
+
+    notifySubscribers();
+  }, [focusConstellation, notifySubscribers]);
+
+  // 获取当前高亮的星座ID
+  const getHighlightedConstellationId = useCallback(() => highlightedConstellationId, [highlightedConstellationId]);
+
   // 高亮星系（不会自动移动摄像机）
   const highlightSystems = useCallback((systemIds: number[]) => {
     setHighlightedSystemIdsState(systemIds);
@@ -517,6 +625,435 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
   // 获取当前高亮的星系ID列表
   const getHighlightedSystemIds = useCallback(() => highlightedSystemIds, [highlightedSystemIds]);
 
+  // 获取跳跃引擎可达星系（多个起点的并集或交集）
+  const getJumpDriveReachableSystemIds = useCallback((mode: 'union' | 'intersection' = 'union') => {
+    const reachableSets = jumpDriveReachableRef.current;
+    if (reachableSets.length === 0) {
+      return [];
+    }
+    if (mode === 'union') {
+      return Array.from(new Set(reachableSets.flat()));
+    }
+    const [first, ...rest] = reachableSets;
+    const others = rest.map(ids => new Set(ids));
+    return first.filter(id => others.every(set => set.has(id)));
+  }, []);
+
+  // 规划路线（星门 + 跳桥）
+  const planRoute = useCallback((fromId: number, toId: number, options: RoutePlanOptions = {}) => {
+    const result = findRoute(systemsRef.current, connectionsRef.current, jumpgatesRef.current, fromId, toId, options);
+    if (!result) {
+      return null;
+    }
+
+    const jumpgateLegs = result.legs.filter(leg => leg.type === 'jumpgate');
+    const plan: RoutePlan = {
+      fromSystemId: fromId,
+      toSystemId: toId,
+      systemIds: result.systemIds,
+      legs: result.legs,
+      jumps: result.legs.length,
+      jumpgateJumps: jumpgateLegs.length,
+      fuel: jumpgateLegs.reduce((total, leg) => total + leg.fuel, 0),
+      preference: options.preference ?? 'shortest',
+    };
+
+    if (options.render !== false) {
+      setRouteState(plan);
+      notifySubscribers();
+    }
+
+    return plan;
+  }, [notifySubscribers]);
+
+  // 清除路线
+  const clearRoute = useCallback(() => {
+    setRouteState(null);
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前显示的路线
+  const getRoute = useCallback(() => route, [route]);
+
+  // 规划旗舰跳跃路线（虫洞空间视图中的星系坐标为布局坐标，无法计算光年距离）
+  const planJumpRoute = useCallback((fromId: number, toId: number, options: JumpRouteOptions) => {
+    if (config.viewMode === 'jspace') {
+      return null;
+    }
+    const result = findJumpRoute(systemsRef.current, fromId, toId, options);
+    if (!result) {
+      return null;
+    }
+
+    const plan: JumpRoutePlan = {
+      fromSystemId: fromId,
+      toSystemId: toId,
+      systemIds: result.systemIds,
+      hops: result.hops,
+      jumps: result.hops.length,
+      totalLightYears: result.hops.reduce((total, hop) => total + hop.distanceLightYears, 0),
+      rangeLightYears: options.rangeLightYears,
+      fatigueModel: options.fatigueModel ?? 'jumps',
+    };
+
+    if (options.render !== false) {
+      setJumpRouteState(plan);
+      notifySubscribers();
+    }
+
+    return plan;
+  }, [config.viewMode, notifySubscribers]);
+
+  // 清除跳跃路线
+  const clearJumpRoute = useCallback(() => {
+    setJumpRouteState(null);
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前显示的跳跃路线
+  const getJumpRoute = useCallback(() => jumpRoute, [jumpRoute]);
+
+  // 测量两个星系之间的直线距离与星门跳数（虫洞空间视图中不可用）
+  const measure = useCallback((fromId: number, toId: number, options: MeasureOptions = {}) => {
+    if (config.viewMode === 'jspace') {
+      return null;
+    }
+    const from = systemsRef.current.find(s => s._key === fromId);
+    const to = systemsRef.current.find(s => s._key === toId);
+    if (!from || !to) {
+      return null;
+    }
+
+    const route = findRoute(systemsRef.current, connectionsRef.current, [], fromId, toId);
+    const result: MeasureResult = {
+      fromSystemId: fromId,
+      toSystemId: toId,
+      distanceLightYears: getLightYearDistance(from, to),
+      jumps: route ? route.legs.length : null,
+    };
+
+    if (options.render !== false) {
+      setMeasurementState(result);
+      notifySubscribers();
+    }
+
+    return result;
+  }, [config.viewMode, notifySubscribers]);
+
+  // 清除测量线
+  const clearMeasurement = useCallback(() => {
+    setMeasurementState(null);
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前显示的测量结果
+  const getMeasurement = useCallback(() => measurement, [measurement]);
+
+  // 添加情报，并在靠近关注星系时触发预警
+  const addIntel = useCallback((report: IntelReport) => {
+    const entry: IntelEntry = {
+      id: ++intelIdRef.current,
+      systemId: report.systemId,
+      count: Number.isFinite(report.count) && report.count! >= 0 ? Math.round(report.count!) : 1,
+      note: report.note,
+      timestamp: report.timestamp ?? Date.now(),
+    };
+
+    // 已过期的情报不显示也不预警
+    const ttl = config.intel?.ttl ?? DEFAULT_INTEL_TTL;
+    const now = Date.now();
+    if (entry.timestamp + ttl <= now) {
+      return entry;
+    }
+
+    setIntelReportsState(prev => [...prev.filter(item => item.timestamp + ttl > now), entry]);
+    notifySubscribers();
+
+    const watchedSystemIds = config.intel?.watchedSystemIds;
+    const onIntelAlert = config.events?.onIntelAlert;
+    if (onIntelAlert && watchedSystemIds && watchedSystemIds.length > 0) {
+      const nearby = findNearbySystems(connectionsRef.current, watchedSystemIds, config.intel?.alertJumps ?? DEFAULT_INTEL_ALERT_JUMPS);
+      const match = nearby.get(entry.systemId);
+      if (match) {
+        onIntelAlert({ report: entry, watchedSystemId: match.sourceId, jumps: match.jumps });
+      }
+    }
+
+    return entry;
+  }, [config.intel, config.events, notifySubscribers]);
+
+  // 移除指定情报
+  const removeIntel = useCallback((id: number) => {
+    setIntelReportsState(prev => prev.filter(item => item.id !== id));
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 清除情报（可只清除指定星系）
+  const clearIntel = useCallback((systemId?: number) => {
+    setIntelReportsState(prev => (systemId === undefined ? [] : prev.filter(item => item.systemId !== systemId)));
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前未过期的情报
+  const getIntelReports = useCallback(() => intelReports, [intelReports]);
+
+  // 在最早的情报过期时将其移除
+  const intelTtl = config.intel?.ttl ?? DEFAULT_INTEL_TTL;
+  useEffect(() => {
+    if (intelReports.length === 0) return;
+    const nextExpiry = intelReports.reduce((earliest, item) => Math.min(earliest, item.timestamp + intelTtl), Infinity);
+    if (nextExpiry === Infinity) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      // setTimeout 的延迟上限约为 24.8 天，被截断的延迟到期时还没有情报过期，则重新计时而不更新状态，以免触发重新渲染
+      const delay = Math.min(Math.max(nextExpiry - Date.now(), 0), 2 ** 31 - 1);
+      timer = setTimeout(() => {
+        const now = Date.now();
+        if (nextExpiry > now) {
+          schedule();
+          return;
+        }
+        setIntelReportsState(prev => {
+          const remaining = prev.filter(item => item.timestamp + intelTtl > now);
+          return remaining.length === prev.length ? prev : remaining;
+        });
+        notifySubscribers();
+      }, delay);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [intelReports, intelTtl, notifySubscribers]);
+
+  // 设置角色位置
+  const setPilots = useCallback((nextPilots: Pilot[]) => {
+    setPilotsState(nextPilots);
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前显示的角色
+  const getPilots = useCallback(() => pilots, [pilots]);
+
+  // 设置虫洞连接（已到期的连接直接丢弃）
+  const setWormholeConnections = useCallback((connections: WormholeConnection[]) => {
+    const now = Date.now();
+    setWormholeConnectionsState(connections.filter(connection => connection.expiresAt === undefined || connection.expiresAt > now));
+    notifySubscribers();
+  }, [notifySubscribers]);
+
+  // 获取当前未到期的虫洞连接
+  const getWormholeConnections = useCallback(() => wormholeConnections, [wormholeConnections]);
+
+  // 在最早的虫洞连接到期时将其移除
+  useEffect(() => {
+    const nextExpiry = wormholeConnections.reduce((earliest, connection) => Math.min(earliest, connection.expiresAt ?? Infinity), Infinity);
+    if (nextExpiry === Infinity) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      // setTimeout 的延迟上限约为 24.8 天，被截断的延迟到期时还没有连接到期，则重新计时而不更新状态，以免重新计算虫洞空间布局
+      const delay = Math.min(Math.max(nextExpiry - Date.now(), 0), 2 ** 31 - 1);
+      timer = setTimeout(() => {
+        const now = Date.now();
+        if (nextExpiry > now) {
+          schedule();
+          return;
+        }
+        setWormholeConnectionsState(prev => {
+          const remaining = prev.filter(connection => connection.expiresAt === undefined || connection.expiresAt > now);
+          return remaining.length === prev.length ? prev : remaining;
+        });
+        notifySubscribers();
+      }, delay);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [wormholeConnections, notifySubscribers]);
+
+  // 搜索星系、星域与星座：只返回包含可见星系的星域和星座
+  const searchMap = useCallback((query: string, options?: MapSearchOptions) => {
+    const visibleRegionIds = new Set(systemsRef.current.map(system => system.regionID));
+    const visibleConstellationIds = new Set(systemsRef.current.map(system => system.constellationID));
+    return searchMapData(query, {
+      systems: systemsRef.current,
+      regions: regionsRef.current.filter(region => visibleRegionIds.has(region._key)),
+      constellations: constellationsRef.current.filter(constellation => visibleConstellationIds.has(constellation._key)),
+    }, options);
+  }, []);
+
+  // 内部方法：执行键盘操作（由 EveMap3D 组件调用），返回按键是否被处理
+  const handleKeyAction = useCallback((action: MapKeyAction, options: { panStep?: number; zoomStep?: number } = {}): boolean => {
+    const { panStep = 0.1, zoomStep = 1.25 } = options;
+
+    switch (action) {
+      case 'panForward':
+      case 'panBackward':
+      case 'panLeft':
+      case 'panRight':
+      case 'zoomIn':
+      case 'zoomOut': {
+        const controls = controlsRef.current;
+        if (!controls) return false;
+        if (animationFrameRef.current !== null) {
+          cancelAnimationFrame(animationFrameRef.current);
+          animationFrameRef.current = null;
+        }
+
+        const { position } = controls.object;
+        const { target } = controls;
+        const offset = { x: position.x - target.x, y: position.y - target.y, z: position.z - target.z };
+
+        if (action === 'zoomIn' || action === 'zoomOut') {
+          // 距离限制由 OrbitControls.update 负责
+          const factor = action === 'zoomIn' ? 1 / zoomStep : zoomStep;
+          position.set(target.x + offset.x * factor, target.y + offset.y * factor, target.z + offset.z * factor);
+          controls.update();
+          return true;
+        }
+
+        // 在水平面上沿相机朝向平移，相机与目标同时移动
+        const distance = Math.sqrt(offset.x * offset.x + offset.y * offset.y + offset.z * offset.z);
+        const horizontalLength = Math.sqrt(offset.x * offset.x + offset.z * offset.z);
+        const forward = horizontalLength < 1e10
+          ? { x: 0, z: 1 }
+          : { x: -offset.x / horizontalLength, z: -offset.z / horizontalLength };
+        const right = { x: -forward.z, z: forward.x };
+        const step = distance * panStep;
+        const direction = action === 'panForward' ? forward
+          : action === 'panBackward' ? { x: -forward.x, z: -forward.z }
+          : action === 'panRight' ? right
+          : { x: -right.x, z: -right.z };
+
+        target.set(target.x + direction.x * step, target.y, target.z + direction.z * step);
+        position.set(position.x + direction.x * step, position.y, position.z + direction.z * step);
+        controls.update();
+        return true;
+      }
+      case 'deselect':
+        if (selectedSystemId !== null) {
+          selectSystem(null);
+        } else if (highlightedConstellationId !== null) {
+          highlightConstellation(null);
+        } else if (highlightedRegionId !== null) {
+          highlightRegion(null);
+        } else {
+          return false;
+        }
+        return true;
+      case 'nextSystem':
+      case 'previousSystem': {
+        // 在高亮星座（无高亮星座时为高亮星域）内按名称排序循环；无可循环的星系时不处理按键，以免拦截 Tab 焦点切换
+        const groupSystems = highlightedConstellationId !== null
+          ? systemsRef.current.filter(s => s.constellationID === highlightedConstellationId)
+          : highlightedRegionId !== null
+            ? systemsRef.current.filter(s => s.regionID === highlightedRegionId)
+            : [];
+        if (groupSystems.length === 0) return false;
+
+        const language = config.language || 'zh';
+        const getName = (system: SolarSystem) => getLocalizedName(system.name, language) || String(system._key);
+        groupSystems.sort((a, b) => getName(a).localeCompare(getName(b), undefined, { numeric: true }));
+
+        const currentIndex = groupSystems.findIndex(s => s._key === selectedSystemId);
+        const delta = action === 'nextSystem' ? 1 : -1;
+        const nextIndex = currentIndex === -1
+          ? (delta > 0 ? 0 : groupSystems.length - 1)
+          : (currentIndex + delta + groupSystems.length) % groupSystems.length;
+        selectSystem(groupSystems[nextIndex]._key);
+        // selectSystem 会清除高亮星座，恢复它以便继续在星座内循环
+        if (highlightedConstellationId !== null) {
+          setHighlightedConstellationIdState(highlightedConstellationId);
+        }
+        return true;
+      }
+      case 'focus':
+        if (selectedSystemId !== null) {
+          focusSystem(selectedSystemId);
+        } else if (highlightedConstellationId !== null) {
+          focusConstellation(highlightedConstellationId);
+        } else if (highlightedRegionId !== null) {
+          focusRegion(highlightedRegionId);
+        } else {
+          return false;
+        }
+        return true;
+      case 'resetCamera':
+        resetCamera();
+        return true;
+    }
+  }, [
+    config.language,
+    selectedSystemId,
+    highlightedRegionId,
+    highlightedConstellationId,
+    selectSystem,
+    highlightRegion,
+    highlightConstellation,
+    focusSystem,
+    focusRegion,
+    focusConstellation,
+    resetCamera,
+  ]);
+
+  // 序列化当前视图状态
+  const serializeState = useCallback(() => {
+    const state: MapViewState = {
+      version: MAP_VIEW_STATE_VERSION,
+      selectedSystemId,
+      highlightedRegionId,
+      highlightedConstellationId,
+      highlightedSystemIds,
+      jumpDriveConfig: config.jumpDriveConfig,
+      language: config.language,
+    };
+    if (pendingCameraRef.current) {
+      // 待恢复的相机尚未生效，保留它以免覆盖链接中的视角
+      state.camera = pendingCameraRef.current;
+    } else if (controlsRef.current) {
+      const { position } = controlsRef.current.object;
+      const { target } = controlsRef.current;
+      state.camera = {
+        position: [position.x, position.y, position.z],
+        target: [target.x, target.y, target.z],
+      };
+    }
+    return encodeMapViewState(state);
+  }, [config.jumpDriveConfig, config.language, selectedSystemId, highlightedRegionId, highlightedConstellationId, highlightedSystemIds]);
+
+  // 从字符串恢复视图状态：直接设置状态而不触发聚焦动画，由相机参数还原视角
+  const restoreState = useCallback((value: string) => {
+    const state = decodeMapViewState(value);
+    if (!state) {
+      return false;
+    }
+
+    if (state.camera) {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+      if (controlsRef.current) {
+        controlsRef.current.target.set(...state.camera.target);
+        controlsRef.current.object.position.set(...state.camera.position);
+        controlsRef.current.update();
+      }
+      // 相机尚未完成初始化时，初始化会覆盖当前视角，需在拿到 controls 及初始化后重新应用
+      pendingCameraRef.current = initialCameraPositionRef.current ? null : state.camera;
+    }
+
+    setSelectedSystemId(state.selectedSystemId ?? null);
+    setHighlightedRegionIdState(state.highlightedRegionId ?? null);
+    setHighlightedConstellationIdState(state.highlightedConstellationId ?? null);
+    setHighlightedSystemIdsState(state.highlightedSystemIds ?? []);
+
+    const configUpdate: Partial<MapControlConfig> = { jumpDriveConfig: state.jumpDriveConfig };
+    if (state.language) {
+      configUpdate.language = state.language;
+    }
+    setConfigState(prev => ({ ...prev, ...configUpdate }));
+
+    notifySubscribers();
+    return true;
+  }, [notifySubscribers]);
+
   // 创建 mapControl 对象（使用 useMemo 确保引用稳定）
   const mapControl = useMemo<MapControl>(() => ({
     // 配置方法
@@ -527,6 +1064,7 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     resetCamera,
     focusSystem,
     focusRegion,
+    focusConstellation,
     setCameraPosition,
     setCameraTarget,
     getCameraPosition,
@@ -537,15 +1075,52 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     getSelectedSystemId,
     highlightRegion,
     getHighlightedRegionId,
+    highlightConstellation,
+    getHighlightedConstellationId,
     highlightSystems,
     getHighlightedSystemIds,
+    getJumpDriveReachableSystemIds,
+    searchMap,
+    serializeState,
+    restoreState,
+
+    // 路线规划方法
+    planRoute,
+    clearRoute,
+    getRoute,
+    planJumpRoute,
+    clearJumpRoute,
+    getJumpRoute,
+    measure,
+    clearMeasurement,
+    getMeasurement,
+
+    // 情报方法
+    addIntel,
+    removeIntel,
+    clearIntel,
+    getIntelReports,
+
+    // 角色方法
+    setPilots,
+    getPilots,
+
+    // 虫洞方法
+    setWormholeConnections,
+    getWormholeConnections,
     
     __internal: {
       setControlsRef,
       setSystems,
+      setRegions,
+      setConstellations,
+      setConnections,
+      setJumpgates,
+      setJumpDriveReachableSystemIds,
       setInitialCameraPosition,
       subscribe,
       getVersion,
+      handleKeyAction,
     },
   }), [
     setConfig,
@@ -553,6 +1128,7 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     resetCamera,
     focusSystem,
     focusRegion,
+    focusConstellation,
     setCameraPosition,
     setCameraTarget,
     getCameraPosition,
@@ -561,13 +1137,42 @@ export function useMapControl(initialConfig?: Partial<MapControlConfig>): MapCon
     getSelectedSystemId,
     highlightRegion,
     getHighlightedRegionId,
+    highlightConstellation,
+    getHighlightedConstellationId,
     highlightSystems,
     getHighlightedSystemIds,
+    getJumpDriveReachableSystemIds,
+    searchMap,
+    serializeState,
+    restoreState,
+    planRoute,
+    clearRoute,
+    getRoute,
+    planJumpRoute,
+    clearJumpRoute,
+    getJumpRoute,
+    measure,
+    clearMeasurement,
+    getMeasurement,
+    addIntel,
+    removeIntel,
+    clearIntel,
+    getIntelReports,
+    setPilots,
+    getPilots,
+    setWormholeConnections,
+    getWormholeConnections,
     setControlsRef,
     setSystems,
+    setRegions,
+    setConstellations,
+    setConnections,
+    setJumpgates,
+    setJumpDriveReachableSystemIds,
     setInitialCameraPosition,
     subscribe,
     getVersion,
+    handleKeyAction,
   ]);
 
   return mapControl;
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import type { MapControl, MapHashSyncOptions } from './types';
+
+/**
+ * 将地图视图状态与 location.hash 双向同步
+ * 挂载时从 hash 恢复视图；之后定时检查状态，变化时用 history.replaceState 写回 hash（不产生历史记录）；
+ * 用户手动修改 hash（如粘贴链接）时重新恢复
+ *
+ * @param mapControl useMapControl 返回的对象
+ * @param options 同步选项
+ *
+ * @example
+ * ```tsx
+ * const mapControl = useMapControl();
+ * useMapHashSync(mapControl);
+ * ```
+ */
+export function useMapHashSync(mapControl: MapControl, options: MapHashSyncOptions = {}) {
+  const { enabled = true, intervalMs = 500 } = options;
+
+  // mapControl 随状态变化而更新，通过 ref 读取最新对象，避免反复重建定时器
+  const mapControlRef = useRef(mapControl);
+  mapControlRef.current = mapControl;
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') return;
+
+    let lastHash = window.location.hash.replace(/^#/, '');
+    if (lastHash) {
+      mapControlRef.current.restoreState(lastHash);
+    }
+
+    const handleHashChange = () => {
+      const hash = window.location.hash.replace(/^#/, '');
+      if (hash === lastHash) return;
+      lastHash = hash;
+      mapControlRef.current.restoreState(hash);
+    };
+
+    const intervalId = window.setInterval(() => {
+      const next = mapControlRef.current.serializeState();
+      if (next === lastHash) return;
+      lastHash = next;
+      const url = `${window.location.pathname}${window.location.search}#${next}`;
+      window.history.replaceState(window.history.state, '', url);
+    }, intervalMs);
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => {
+      window.clearInterval(intervalId);
+      window.removeEventListener('hashchange', handleHashChange);
+    };
+  }, [enabled, intervalMs]);
+}
@@ -7,3 +7,9 @@ export function isNewEdenSystem(systemID: number): boolean {
   return systemID >= 30000000 && systemID < 31000000;
 }
 
+/**
+ * 判断是否为虫洞星系（Anoikis，ID范围 31000000-31999999）
+ */
+export function isWormholeSystem(systemID: number): boolean {
+  return systemID >= 31000000 && systemID < 32000000;
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { parseIntelLog } from '../src/lib/intelLogParser';
+import type { SolarSystem } from '../src/lib/types';
+
+const position = { x: 0, y: 0, z: 0 };
+const system = (_key: number, name: SolarSystem['name']): SolarSystem => ({
+  _key,
+  name,
+  position,
+  regionID: 10000002,
+  constellationID: 20000020,
+  securityStatus: 0.9,
+});
+
+const systems: SolarSystem[] = [
+  system(30000142, { en: 'Jita', zh: '吉他' }),
+  system(30004759, { en: '1DQ1-A', zh: '1DQ1-A' }),
+  system(30001161, { en: 'HED-GP', zh: 'HED-GP' }),
+  system(30000145, { en: 'New Caldari', zh: '新加达里' }),
+  system(30004009, { en: '49-U6U', zh: '49-U6U' }),
+  system(30004010, { en: '49-0LI', zh: '49-0LI' }),
+  system(30002711, { en: 'Suner', zh: '苏纳' }),
+  system(30099999, { en: 'GATE-1', zh: 'GATE-1' }),
+];
+
+const log = readFileSync(new URL('./fixtures/intel.log', import.meta.url), 'utf8');
+const timestamp = (time: string) => Date.parse(`2024-01-31T${time}Z`);
+
+describe('parseIntelLog', () => {
+  const reports = parseIntelLog(log, systems);
+
+  it('skips file header lines and EVE System messages', () => {
+    assert.ok(reports.every((report) => report.reporter !== 'EVE System'));
+    assert.equal(reports[0].timestamp, timestamp('18:04:15'));
+  });
+
+  it('parses the fixture log into reports', () => {
+    assert.deepEqual(
+      reports.map(({ systemId, count, reporter, matchedText, clear }) => ({ systemId, count, reporter, matchedText, clear })),
+      [
+        { systemId: 30004759, count: 5, reporter: 'Some Pilot', matchedText: '1dq', clear: false },
+        { systemId: 30000142, count: 5, reporter: 'Alice', matchedText: 'Jita', clear: false },
+        { systemId: 30001161, count: undefined, reporter: 'Bob', matchedText: 'HED-GP', clear: true },
+        { systemId: 30000145, count: undefined, reporter: 'Carol', matchedText: 'New Caldari', clear: false },
+        { systemId: 30000142, count: undefined, reporter: 'Dave', matchedText: '吉他', clear: false },
+        { systemId: 30004759, count: undefined, reporter: 'Dave', matchedText: '1DQ1-A', clear: false },
+      ],
+    );
+  });
+
+  it('keeps the message without timestamp and reporter as the note', () => {
+    assert.equal(reports[0].note, '1dq  +5 nv');
+  });
+
+  it('matches a partial name only when the prefix is unique', () => {
+    assert.equal(reports.find((report) => report.reporter === 'Erin'), undefined);
+    const [report] = parseIntelLog('[ 2024.01.31 18:06:12 ] Erin > 49-U spike', systems);
+    assert.equal(report.systemId, 30004009);
+  });
+
+  it('does not read plain words as partial names', () => {
+    assert.equal(reports.find((report) => report.reporter === 'Frank'), undefined);
+  });
+
+  it('never reads ignore words as system names', () => {
+    assert.equal(reports.find((report) => report.reporter === 'Grace'), undefined);
+    const line = '[ 2024.01.31 18:06:30 ] Grace > Jita +2';
+    assert.equal(parseIntelLog(line, systems, { ignoreWords: ['jita'] }).length, 0);
+  });
+
+  it('drops messages before since', () => {
+    const recent = parseIntelLog(log, systems, { since: timestamp('18:06:00') });
+    assert.deepEqual(new Set(recent.map((report) => report.reporter)), new Set(['Dave']));
+  });
+});
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeMapData } from '../src/lib/mapDataFormat';
+import { loadMapData } from '../src/lib/mapDataLoader';
+import type { Constellation, MapDataLoadProgress, Region, SolarSystem, Star, Stargate } from '../src/lib/types';
+
+const position = { x: 1e16, y: 2e16, z: -3e16 };
+const systems: SolarSystem[] = [
+  { _key: 30000142, name: { en: 'Jita', zh: '吉他' }, position, regionID: 10000002, constellationID: 20000020, securityStatus: 0.946 },
+  { _key: 30000144, name: { en: 'Perimeter', zh: '皮尔米特' }, position, regionID: 10000002, constellationID: 20000020, securityStatus: 0.957 },
+  { _key: 31000005, name: { en: 'Thera' }, position, regionID: 11000031, constellationID: 21000324, securityStatus: -0.99, wormholeClassID: 12 },
+];
+const stargates: Stargate[] = [
+  { _key: 50001248, solarSystemID: 30000142, destination: { solarSystemID: 30000144, stargateID: 50001249 }, position, typeID: 29624 },
+  { _key: 50001249, solarSystemID: 30000144, destination: { solarSystemID: 30000142, stargateID: 50001248 }, position, typeID: 29624 },
+];
+const regions: Region[] = [
+  { _key: 10000002, name: { en: 'The Forge', zh: '伪造者' }, position, constellationIDs: [20000020] },
+  { _key: 11000031, name: { en: 'G-R00031' }, position, constellationIDs: [21000324], wormholeClassID: 12 },
+];
+const constellations: Constellation[] = [
+  { _key: 20000020, name: { en: 'Kimotoro', zh: '基莫托罗' }, position, regionID: 10000002, solarSystemIDs: [30000142, 30000144] },
+  { _key: 21000324, name: { en: 'H-C00324' }, position, regionID: 11000031, solarSystemIDs: [31000005], wormholeClassID: 12 },
+];
+const stars: Star[] = [
+  { _key: 40009077, solarSystemID: 30000142, spectralClass: 'K7 V', temperature: 3930, luminosity: 0.02, radius: 4.6e8 },
+];
+
+const toJsonl = (records: unknown[]) => records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+
+const validFiles: Record<string, string | ArrayBuffer> = {
+  'mapSolarSystems.jsonl': toJsonl(systems),
+  'mapStargates.jsonl': toJsonl(stargates),
+  'mapRegions.jsonl': toJsonl(regions),
+  'mapConstellations.jsonl': toJsonl(constellations),
+  'mapStars.jsonl': toJsonl(stars),
+};
+
+/**
+ * 按文件名返回固定内容的 fetch，并记录请求的地址
+ */
+function createFetch(files: Record<string, string | ArrayBuffer>, requested: string[] = []): typeof fetch {
+  return async (input) => {
+    const url = String(input);
+    requested.push(url);
+    const body = files[url.slice(url.lastIndexOf('/') + 1)];
+    return body === undefined ? new Response('Not Found', { status: 404 }) : new Response(body);
+  };
+}
+
+describe('loadMapData', () => {
+  it('loads and validates the JSONL files', async () => {
+    const requested: string[] = [];
+    const result = await loadMapData({ baseUrl: '/data/', stars: true, fetch: createFetch(validFiles, requested) });
+
+    assert.deepEqual(result.systems, systems);
+    assert.deepEqual(result.stargates, stargates);
+    assert.deepEqual(result.regions, regions);
+    assert.deepEqual(result.constellations, constellations);
+    assert.deepEqual(result.stars, stars);
+    assert.deepEqual(result.issues, []);
+    assert.ok(requested.every((url) => url.startsWith('/data/map')));
+  });
+
+  it('skips invalid records and reports them with line numbers', async () => {
+    const files = {
+      ...validFiles,
+      'mapSolarSystems.jsonl': `${JSON.stringify(systems[0])}\n{ not json\n${JSON.stringify({ ...systems[1], securityStatus: 'high' })}\n`,
+    };
+    const result = await loadMapData({ baseUrl: '/data', fetch: createFetch(files) });
+
+    assert.deepEqual(result.systems.map((system) => system._key), [30000142]);
+    assert.deepEqual(
+      result.issues
+        .filter((issue) => issue.type === 'invalidRecord')
+        .map(({ file, line, id }) => ({ file, line, id })),
+      [
+        { file: 'mapSolarSystems.jsonl', line: 2, id: undefined },
+        { file: 'mapSolarSystems.jsonl', line: 3, id: 30000144 },
+      ],
+    );
+  });
+
+  it('reports dangling references', async () => {
+    const files = {
+      ...validFiles,
+      'mapSolarSystems.jsonl': toJsonl([systems[0], { ...systems[2], regionID: 1, constellationID: 2 }]),
+      'mapStars.jsonl': toJsonl([...stars, { ...stars[0], _key: 40000001, solarSystemID: 30000001 }]),
+    };
+    const result = await loadMapData({ baseUrl: '/data', stars: true, fetch: createFetch(files) });
+
+    assert.deepEqual(
+      result.issues.map(({ type, id }) => ({ type, id })),
+      [
+        { type: 'danglingStargate', id: 50001248 },
+        { type: 'danglingStargate', id: 50001249 },
+        { type: 'unknownRegion', id: 31000005 },
+        { type: 'unknownConstellation', id: 31000005 },
+        { type: 'unknownSystem', id: 40000001 },
+      ],
+    );
+  });
+
+  it('does not request or check regions and constellations when disabled', async () => {
+    const requested: string[] = [];
+    const result = await loadMapData({ baseUrl: '/data', regions: false, constellations: false, fetch: createFetch(validFiles, requested) });
+
+    assert.deepEqual(requested, ['/data/mapSolarSystems.jsonl', '/data/mapStargates.jsonl']);
+    assert.deepEqual(result.regions, []);
+    assert.deepEqual(result.constellations, []);
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('loads the binary format including wormhole classes', async () => {
+    const files = { 'mapData.bin': encodeMapData({ systems, stargates, regions, constellations }) };
+    const result = await loadMapData({ baseUrl: '/data', format: 'binary', fetch: createFetch(files) });
+
+    assert.deepEqual(result.systems.map((system) => system.wormholeClassID), [undefined, undefined, 12]);
+    assert.deepEqual(result.regions.map((region) => region.wormholeClassID), [undefined, 12]);
+    assert.deepEqual(result.constellations.map((constellation) => constellation.wormholeClassID), [undefined, 12]);
+    // 坐标以 Float32 存储，只比较 ID
+    assert.deepEqual(result.stargates.map((stargate) => stargate.destination), stargates.map((stargate) => stargate.destination));
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('reports progress until every file is complete', async () => {
+    const progress: MapDataLoadProgress[] = [];
+    await loadMapData({ baseUrl: '/data', stars: true, fetch: createFetch(validFiles), onProgress: (event) => progress.push(event) });
+
+    const last = progress[progress.length - 1];
+    assert.equal(last.totalFiles, 5);
+    assert.equal(last.completedFiles, 5);
+  });
+
+  it('rejects on a non-OK response', async () => {
+    const files = { ...validFiles };
+    delete files['mapStargates.jsonl'];
+    await assert.rejects(loadMapData({ baseUrl: '/data', fetch: createFetch(files) }), /mapStargates\.jsonl: HTTP 404/);
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(loadMapData({ baseUrl: '/data', signal: controller.signal, fetch: createFetch(validFiles) }));
+  });
+});